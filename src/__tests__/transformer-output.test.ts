@@ -0,0 +1,1026 @@
+import ts from 'typescript';
+import path from 'path';
+import { createZodTransformer } from '../transformers';
+import { TypeCompilerOptions } from '../types';
+import { logger } from '../logger';
+
+// Parsed library files shared between test programs
+const libFileCache = new Map<string, ts.SourceFile | undefined>();
+
+describe('Transformer Output', () => {
+  beforeAll(() => {
+    logger.configureFromOptions({ silent: true });
+  });
+  
+  // Run the Zod transformer over one of a set of in-memory files and print the resulting TypeScript
+  function transformFiles(
+    files: Record<string, string>,
+    fileName: string,
+    options: TypeCompilerOptions = {},
+    compilerOptions: ts.CompilerOptions = { strict: true }
+  ): string {
+    const sourceFiles = new Map(Object.entries(files).map(([name, code]) =>
+      [name, ts.createSourceFile(name, code, ts.ScriptTarget.Latest, true)]
+    ));
+    const host = ts.createCompilerHost(compilerOptions);
+    const program = ts.createProgram([fileName], compilerOptions, {
+      ...host,
+      fileExists: name => sourceFiles.has(name) || host.fileExists(name),
+      readFile: name => files[name] ?? host.readFile(name),
+      directoryExists: undefined,
+      getSourceFile: (name, languageVersion) => {
+        if (sourceFiles.has(name)) {
+          return sourceFiles.get(name);
+        }
+        if (!libFileCache.has(name)) {
+          libFileCache.set(name, host.getSourceFile(name, languageVersion));
+        }
+        return libFileCache.get(name);
+      }
+    });
+    
+    const transformer = createZodTransformer(program, { generateZodSchemas: true, ...options });
+    const result = ts.transform(program.getSourceFile(fileName)!, [transformer], compilerOptions);
+    const output = ts.createPrinter().printFile(result.transformed[0]);
+    result.dispose();
+    
+    return output;
+  }
+  
+  // Run the Zod transformer over in-memory source and print the resulting TypeScript
+  function transformSource(
+    code: string,
+    options: TypeCompilerOptions = {},
+    compilerOptions: ts.CompilerOptions = { strict: true }
+  ): string {
+    return transformFiles({ 'test.ts': code }, 'test.ts', options, compilerOptions);
+  }
+  
+  // Type-check printed output as a file next to the tests, so zod resolves from node_modules
+  function getTypeErrors(output: string, compilerOptions: ts.CompilerOptions): string[] {
+    const fileName = path.join(__dirname, 'printed-output.ts');
+    const options = { ...compilerOptions, noEmit: true, skipLibCheck: true, moduleResolution: ts.ModuleResolutionKind.Node10 };
+    const host = ts.createCompilerHost(options);
+    const program = ts.createProgram([fileName], options, {
+      ...host,
+      fileExists: name => name === fileName || host.fileExists(name),
+      readFile: name => name === fileName ? output : host.readFile(name),
+      getSourceFile: (name, languageVersion) => name === fileName
+        ? ts.createSourceFile(name, output, languageVersion, true)
+        : host.getSourceFile(name, languageVersion)
+    });
+    
+    return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+  }
+
+  describe('recursive types', () => {
+    test('should reference self-recursive types lazily with a type annotation', () => {
+      const output = transformSource(`
+        export interface TreeNode {
+          value: string;
+          children: TreeNode[];
+        }
+      `);
+      
+      expect(output).toContain('export const zTreeNode: z.ZodType<TreeNode, z.ZodTypeDef, unknown> = z.object({');
+      expect(output).toContain('children: z.array(z.lazy(() => zTreeNode))');
+    });
+    
+    test('should handle mutually recursive types', () => {
+      const output = transformSource(`
+        export interface Author { posts: Post[] }
+        export interface Post { author: Author }
+      `);
+      
+      expect(output).toContain('export const zAuthor: z.ZodType<Author, z.ZodTypeDef, unknown> =');
+      expect(output).toContain('export const zPost: z.ZodType<Post, z.ZodTypeDef, unknown> =');
+      expect(output).toContain('author: z.lazy(() => zAuthor)');
+      expect(output).toContain('posts: z.array(z.lazy(() => zPost))');
+    });
+    
+    test('should handle recursive type aliases', () => {
+      const output = transformSource(`
+        export type Json = string | number | boolean | null | Json[];
+      `);
+      
+      expect(output).toContain('export const zJson: z.ZodType<Json, z.ZodTypeDef, unknown> =');
+      expect(output).toContain('z.array(z.lazy(() => zJson))');
+    });
+    
+    test('should annotate recursive schemas with types that check', () => {
+      const source = `
+        export namespace Shapes {
+          export interface Tree { children: Tree[] }
+        }
+        export function build() {
+          interface Local { next?: Local }
+          return null as unknown as Local;
+        }
+        export interface Settings {
+          /** @default "light" */
+          theme: string;
+          parent?: Settings;
+        }
+      `;
+      const exactOptions = { strict: true, exactOptionalPropertyTypes: true };
+      const output = transformSource(source);
+      const exactOutput = transformSource(source, {}, exactOptions);
+      
+      expect(output).toContain('export const zTree: z.ZodType<Shapes.Tree, z.ZodTypeDef, unknown> =');
+      expect(output).toContain('const _zLocal: z.ZodTypeAny =');
+      expect(exactOutput).toContain('}) as z.ZodType<Settings, z.ZodTypeDef, unknown>;');
+      expect(getTypeErrors(output, { strict: true })).toEqual([]);
+      expect(getTypeErrors(exactOutput, exactOptions)).toEqual([]);
+    });
+    
+    test('should not annotate non-recursive schemas', () => {
+      const output = transformSource(`
+        export interface Point { x: number; y: number }
+      `);
+      
+      expect(output).toContain('export const zPoint = z.object({');
+    });
+  });
+
+  describe('generic types', () => {
+    test('should emit generic declarations as schema factories', () => {
+      const output = transformSource(`
+        export interface Container<T> { value: T; timestamp: number }
+      `);
+      
+      expect(output).toContain('export const zContainer = (tSchema: z.ZodTypeAny) => z.object({');
+      expect(output).toContain('value: tSchema,');
+    });
+    
+    test('should use type parameter defaults as parameter defaults', () => {
+      const output = transformSource(`
+        export interface Result<T, E = Error> { value?: T; error?: E }
+      `);
+      
+      expect(output).toContain(
+        'export const zResult = (tSchema: z.ZodTypeAny, eSchema: z.ZodTypeAny = z.instanceof(Error)) =>'
+      );
+      expect(output).toContain('error: eSchema.optional()');
+    });
+    
+    test('should call the factory for instantiations of generic types', () => {
+      const output = transformSource(`
+        export interface Container<T> { value: T }
+        export interface Inventory { counts: Container<number>; labels: Container<string[]> }
+      `);
+      
+      expect(output).toContain('counts: zContainer(z.number())');
+      expect(output).toContain('labels: zContainer(z.array(z.string()))');
+    });
+    
+    test('should type recursive factories by their return type', () => {
+      const output = transformSource(`
+        export interface Tree<T> { value: T; children: Tree<T>[] }
+      `);
+      
+      expect(output).toContain('export const zTree = (tSchema: z.ZodTypeAny): z.ZodTypeAny => z.object({');
+      expect(output).toContain('children: z.array(z.lazy(() => zTree(tSchema)))');
+    });
+  });
+
+  describe('utility types', () => {
+    const source = `
+      export interface User { id: number; name: string; password: string }
+    `;
+    
+    test('should derive Partial, Required and Readonly from the source schema', () => {
+      const output = transformSource(`${source}
+        export type UserDraft = Partial<User>;
+        export type CompleteUser = Required<User>;
+        export type FrozenUser = Readonly<User>;
+      `);
+      
+      expect(output).toContain('export const zUserDraft = zUser.partial();');
+      expect(output).toContain('export const zCompleteUser = zUser.required();');
+      expect(output).toContain('export const zFrozenUser = zUser;');
+    });
+    
+    test('should derive Pick and Omit from the source schema', () => {
+      const output = transformSource(`${source}
+        export type UserSummary = Pick<User, 'id' | 'name'>;
+        export type PublicUser = Omit<User, 'password'>;
+        export interface Session { user: Pick<User, 'id'> }
+      `);
+      
+      expect(output).toContain('export const zUserSummary = zUser.pick({ id: true, name: true });');
+      expect(output).toContain('export const zPublicUser = zUser.omit({ password: true });');
+      expect(output).toContain('user: zUser.pick({ id: true })');
+    });
+    
+    test('should leave keys the source type does not have out of the Omit mask', () => {
+      const output = transformSource(`${source}
+        export type PublicUser = Omit<User, 'password' | 'nope'>;
+      `);
+      
+      expect(output).toContain('export const zPublicUser = zUser.omit({ password: true });');
+      expect(getTypeErrors(output, { strict: true })).toEqual([]);
+    });
+    
+    test('should resolve the properties when the source schema is not a plain object', () => {
+      const output = transformSource(`
+        export interface Profile { bio?: string }
+        export type ProfileDraft = Partial<Profile>;
+      `, {}, { strict: true, exactOptionalPropertyTypes: true });
+      
+      expect(output).not.toContain('zProfile.partial()');
+      expect(output).toContain('bio: z.string().optional()');
+    });
+    
+    test('should resolve instantiations of generic mapped types', () => {
+      const output = transformSource(`
+        export type Nullable<T> = { [K in keyof T]: T[K] | null };
+        export interface Point { x: number }
+        export interface Shape { origin: Nullable<Point> }
+      `);
+      
+      expect(output).toContain('origin: z.object({');
+      expect(output).toContain('x: z.number().nullable()');
+      expect(output).not.toContain('zNullable(');
+    });
+    
+    test('should not emit factories for generic types computed from their type parameters', () => {
+      const output = transformSource(`
+        export type Cond<T> = T extends string ? { s: T } : { n: T };
+        export type Nullable<T> = { [K in keyof T]: T[K] | null };
+        export type Keys = { [K in 'a' | 'b']: number };
+        export interface Holder { value: Cond<string> }
+      `);
+      
+      expect(output).not.toContain('zCond');
+      expect(output).not.toContain('zNullable');
+      expect(output).toContain('export const zKeys = z.object({');
+      expect(output).toContain('value: z.object({');
+      expect(output).toContain('s: z.string()');
+    });
+  });
+
+  describe('named type references', () => {
+    test('should reference the schema of a named property type', () => {
+      const output = transformSource(`
+        export interface Address { street: string; city: string }
+        export interface Customer { shipping: Address; billing?: Address; previous: Address[] }
+      `);
+      
+      expect(output).toContain('shipping: zAddress,');
+      expect(output).toContain('billing: zAddress.optional(),');
+      expect(output).toContain('previous: z.array(zAddress)');
+      expect(output.match(/street: z\.string\(\)/g)).toHaveLength(1);
+    });
+    
+    test('should reference schemas of types declared later once they are initialized', () => {
+      const output = transformSource(`
+        export interface Customer { address: Address }
+        export interface Address { street: string }
+      `);
+      
+      expect(output).toContain('export const zCustomer = z.object({');
+      expect(output).toContain('address: zAddress');
+      expect(output.indexOf('zAddress =')).toBeLessThan(output.indexOf('zCustomer ='));
+    });
+    
+    test('should reuse the schema of an aliased named type', () => {
+      const output = transformSource(`
+        export interface User { name: string }
+        export type Contact = User;
+      `);
+      
+      expect(output).toContain('export const zContact = zUser;');
+    });
+    
+    test('should reference enum and union alias schemas', () => {
+      const output = transformSource(`
+        export enum Role { Admin = 'admin', Member = 'member' }
+        export type Tag = 'new' | 'sale';
+        export interface Member { role: Role; tags: Tag[] }
+      `);
+      
+      expect(output).toContain('role: zRole,');
+      expect(output).toContain('tags: z.array(zTag)');
+    });
+    
+    test('should reference the schemas of union aliases in properties and tuple elements', () => {
+      const output = transformSource(`
+        export type UserRole = 'admin' | 'member';
+        export type Id = string | number;
+        export type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number };
+        export interface Account { role: UserRole; backup?: UserRole | null; id: Id; shape: Shape; pair: [Id, UserRole?] }
+      `);
+      
+      expect(output).toContain('role: zUserRole,');
+      expect(output).toContain('backup: zUserRole.nullish(),');
+      expect(output).toContain('id: zId,');
+      expect(output).toContain('shape: zShape,');
+      expect(output).toContain('pair: z.union([z.tuple([zId]), z.tuple([zId, zUserRole.optional()])])');
+      expect(output.match(/z\.discriminatedUnion/g)).toHaveLength(1);
+    });
+    
+    test('should not reference schemas for the value side of classes and enums', () => {
+      const output = transformSource(`
+        export class Service { name = '' }
+        export enum Status { Active = 'active', Gone = 'gone' }
+        export interface Registry { ctor: typeof Service; statuses: typeof Status; service: Service; status: Status }
+      `);
+      
+      expect(output).toContain('ctor: z.instanceof(Function),');
+      expect(output).toContain('statuses: z.object({');
+      expect(output).toContain('Active: z.literal("active"),');
+      expect(output).toContain('service: zService,');
+      expect(output).toContain('status: zStatus');
+    });
+    
+    test('should reference the schemas of discriminated union members', () => {
+      const output = transformSource(`
+        export interface Circle { kind: 'circle'; radius: number }
+        export type Square = { kind: 'square'; size: number };
+        export interface Group { kind: 'group'; shapes: Shape[] }
+        export type Shape = Circle | Square | Group | { kind: 'point' };
+      `);
+      
+      expect(output).toContain('z.discriminatedUnion("kind", [zCircle, zSquare, z.object({');
+      expect(output).toContain('z.object({\n  kind: z.literal("point")');
+      expect(output.match(/radius: z\.number\(\)/g)).toHaveLength(1);
+      expect(output.indexOf('zCircle =')).toBeLessThan(output.indexOf('const zShape'));
+    });
+  });
+
+  describe('enums', () => {
+    test('should validate top-level enums against their object', () => {
+      const output = transformSource(`
+        export enum Role { Admin = 'admin', Member = 'member' }
+      `);
+      
+      expect(output).toContain('export const zRole = z.nativeEnum(Role);');
+    });
+    
+    test('should expand enums declared in namespaces and functions into their values', () => {
+      const output = transformSource(`
+        export namespace Shapes { export enum Kind { Circle = 'circle', Square = 'square' } }
+        export interface Shape { kind: Shapes.Kind }
+        export function draw() {
+          enum Layer { Back, Front }
+          interface Sprite { layer: Layer }
+          return null as unknown as Sprite;
+        }
+      `);
+      
+      expect(output).not.toContain('nativeEnum');
+      expect(output).not.toContain('zKind');
+      expect(output).toContain('kind: z.union([z.literal("circle"), z.literal("square")])');
+      expect(output).toContain('layer: z.union([z.literal(0), z.literal(1)])');
+    });
+    
+    test('should expand enums without a generated schema into their values', () => {
+      const output = transformFiles({
+        '/project/src/role.ts': `export enum Role { Admin = 'admin', Member = 'member' }`,
+        '/project/src/member.ts': `
+          import { Role } from './role';
+          export interface Member { role: Role }
+        `
+      }, '/project/src/member.ts', { excludedTypes: ['Role'] });
+      
+      expect(output).not.toContain('nativeEnum');
+      expect(output).not.toContain('import { zRole }');
+      expect(output).toContain('role: z.union([z.literal("admin"), z.literal("member")])');
+    });
+    
+    test('should expand enums declared after code that runs while the module loads', () => {
+      const output = transformSource(`
+        console.log('loading');
+        export enum Role { Admin = 'admin', Member = 'member' }
+        declare enum Level { Low = 1, High = 2 }
+      `);
+      
+      expect(output).not.toContain('nativeEnum');
+      expect(output).toContain('export const zRole = z.union([z.literal("admin"), z.literal("member")]);');
+      expect(output).toContain('const _zLevel = z.union([z.literal(1), z.literal(2)]);');
+    });
+  });
+
+  describe('cross-file references', () => {
+    const userModule = `
+      export interface User { id: string; name: string }
+      export enum Role { Admin = 'admin', Member = 'member' }
+      interface Secret { key: string }
+      export interface Vault { secret: Secret }
+    `;
+    
+    test('should import the schemas of types declared in other files', () => {
+      const output = transformFiles({
+        '/project/src/models/user.ts': userModule,
+        '/project/src/orders/order.ts': `
+          import { User, Role } from '../models/user';
+          export interface Order { buyer: User; role: Role; watchers: User[] }
+        `
+      }, '/project/src/orders/order.ts');
+      
+      expect(output).toContain('import { zUser, zRole } from "../models/user";');
+      expect(output).toContain('buyer: zUser,');
+      expect(output).toContain('role: zRole,');
+    });
+    
+    test('should import from the declaring file through re-exports and path aliases', () => {
+      const output = transformFiles({
+        '/project/src/models/user.ts': userModule,
+        '/project/src/models/index.ts': `export * from './user';`,
+        '/project/src/orders/order.ts': `
+          import type { User } from '../models';
+          import { Role } from '@models/user';
+          export interface Order { buyer: User; role: Role }
+        `
+      }, '/project/src/orders/order.ts', {}, {
+        strict: true,
+        baseUrl: '/project',
+        paths: { '@models/*': ['src/models/*'] }
+      });
+      
+      expect(output).toContain('import { zUser, zRole } from "../models/user";');
+    });
+    
+    test('should inline types whose schema is not exported', () => {
+      const output = transformFiles({
+        '/project/src/models/user.ts': userModule,
+        '/project/src/audit.ts': `
+          import { Vault } from './models/user';
+          export type Entry = { vault: Vault; secret: Vault['secret'] };
+        `
+      }, '/project/src/audit.ts');
+      
+      expect(output).toContain('import { zVault } from "./models/user";');
+      expect(output).toContain('secret: z.object({');
+    });
+    
+    test('should import the schemas of union aliases declared in other files', () => {
+      const output = transformFiles({
+        '/project/src/roles.ts': `export type UserRole = 'admin' | 'member';`,
+        '/project/src/member.ts': `
+          import { UserRole } from './roles';
+          export interface Member { role: UserRole; previous?: UserRole }
+        `
+      }, '/project/src/member.ts');
+      
+      expect(output).toContain('import { zUserRole } from "./roles";');
+      expect(output).toContain('role: zUserRole,');
+      expect(output).toContain('previous: zUserRole.optional()');
+    });
+    
+    test('should reference schemas imported from files in an import cycle lazily', () => {
+      const files = {
+        '/project/src/a.ts': `
+          import { B } from './b';
+          export interface A { name: string; b?: B }
+          export function takeA(a: A, b: B) { return a.name; }
+        `,
+        '/project/src/b.ts': `
+          import { A } from './a';
+          import { User } from './user';
+          export interface B { owner?: A; user: User }
+        `,
+        '/project/src/user.ts': `export interface User { id: string }`
+      };
+      const a = transformFiles(files, '/project/src/a.ts', { validateParameters: true });
+      const b = transformFiles(files, '/project/src/b.ts');
+      
+      expect(a).toContain('export const zA: z.ZodType<A, z.ZodTypeDef, unknown> = z.object({');
+      expect(a).toContain('b: z.lazy(() => zB).optional()');
+      expect(a).toContain('b: z.lazy(() => zB)\n');
+      expect(b).toContain('export const zB: z.ZodType<B, z.ZodTypeDef, unknown> = z.object({');
+      expect(b).toContain('owner: z.lazy(() => zA).optional(),');
+      expect(b).toContain('user: zUser');
+    });
+  });
+
+  describe('schema naming', () => {
+    const source = `
+      export interface User { name: string }
+      export interface Box<T> { content: T }
+      export interface Shelf { owner: User; boxes: Box<User>[] }
+    `;
+    
+    test('should prefix schema names with zodSchemaPrefix', () => {
+      const output = transformSource(source, { zodSchemaPrefix: 'validate' });
+      
+      expect(output).toContain('export const validateUser = z.object({');
+      expect(output).toContain('export const validateBox = (tSchema: z.ZodTypeAny) =>');
+      expect(output).toContain('owner: validateUser,');
+    });
+    
+    test('should name schemas with a schemaNaming template', () => {
+      const output = transformSource(source, { zodSchemaPrefix: 'validate', schemaNaming: '{name}Schema' });
+      
+      expect(output).toContain('export const UserSchema = z.object({');
+      expect(output).toContain('boxes: z.array(BoxSchema(UserSchema))');
+    });
+    
+    test('should name schemas with a schemaNaming function', () => {
+      const output = transformSource(source, {
+        schemaNaming: (typeName, kind) => kind === 'genericType' ? `make${typeName}Schema` : `${typeName}Schema`
+      });
+      
+      expect(output).toContain('export const makeBoxSchema = (tSchema: z.ZodTypeAny) =>');
+      expect(output).toContain('owner: UserSchema,');
+      expect(output).toContain('boxes: z.array(makeBoxSchema(UserSchema))');
+    });
+    
+    test('should keep schemas of types that are not exported private', () => {
+      const output = transformSource(`
+        interface Secret { key: string }
+        export interface Vault { secret: Secret }
+      `);
+      
+      expect(output).toContain('const _zSecret = z.object({');
+      expect(output).toContain('secret: _zSecret');
+    });
+
+    test('should apply schemaNaming as given to types that are not exported', () => {
+      const output = transformSource(`
+        interface Secret { key: string }
+        export interface Vault { secret: Secret }
+        /** @validate */
+        function open(vault: Vault): void {}
+      `, { schemaNaming: name => `${name}Schema` });
+
+      expect(output).toContain('const SecretSchema = z.object({');
+      expect(output).toContain('secret: SecretSchema');
+      expect(output).toContain('const openParamsSchema = z.object({');
+      expect(output).not.toMatch(/const _/);
+    });
+
+    test('should fall back to the prefixed name when schemaNaming gives an invalid identifier', () => {
+      const output = transformSource(source, { schemaNaming: '{name}-schema' });
+
+      expect(output).toContain('export const zUser = z.object({');
+      expect(output).toContain('owner: zUser,');
+      expect(output).not.toContain('-schema');
+    });
+
+    test('should skip schemas whose name is already declared in the file', () => {
+      const output = transformSource(`
+        export interface User { name: string }
+        export interface Group { members: User[] }
+        export const zUser = (name: string) => ({ name });
+      `);
+      
+      expect(output).not.toContain('export const zUser = z.object');
+      expect(output).toContain('members: z.array(z.object({');
+    });
+    
+    test('should not import schemas whose name is already declared in the file', () => {
+      const output = transformFiles({
+        '/project/src/user.ts': 'export interface User { name: string }',
+        '/project/src/group.ts': `
+          import { User } from './user';
+          import { zUser } from './legacy';
+          export interface Group { owner: User }
+        `,
+        '/project/src/legacy.ts': 'export const zUser = {};'
+      }, '/project/src/group.ts');
+      
+      expect(output).not.toContain('from "./user"');
+      expect(output).toContain('owner: z.object({');
+    });
+  });
+
+  describe('class method validators', () => {
+    const source = `
+      export interface User { id: number; name: string }
+      export class UserService {
+        constructor(private apiKey: string, private timeout: number = 3000) {}
+        update(id: number, data: Partial<User>, note?: string): boolean { return true; }
+        find(id: number): User;
+        find(name: string): User;
+        find(key: number | string): User { return null as any; }
+        ping(): void {}
+      }
+    `;
+    
+    test('should not emit validators unless validateClassMethods is enabled', () => {
+      const output = transformSource(source);
+      
+      expect(output).not.toContain('Params =');
+    });
+    
+    test('should emit parameter validators for the constructor and methods', () => {
+      const output = transformSource(source, { validateClassMethods: true });
+      
+      expect(output).toMatch(/export const zUserServiceConstructorParams = z\.object\(\{\s+apiKey: z\.string\(\),\s+timeout: z\.number\(\)\.optional\(\)/);
+      expect(output).toMatch(/export const zUserServiceupdateParams = z\.object\(\{\s+id: z\.number\(\),\s+data: zUser\.partial\(\),\s+note: z\.string\(\)\.optional\(\)/);
+      expect(output).not.toContain('zUserServicepingParams');
+    });
+    
+    test('should validate the implementation of overloaded methods', () => {
+      const output = transformSource(source, { validateClassMethods: true });
+      
+      expect(output.match(/zUserServicefindParams =/g)).toHaveLength(1);
+      expect(output).toContain('key: z.union([z.string(), z.number()])');
+    });
+    
+    test('should emit validators after the schemas they reference', () => {
+      const output = transformSource(`
+        export class Registry { register(entry: Entry): void {} }
+        export interface Entry { key: string }
+      `, { validateClassMethods: true });
+      
+      expect(output).toContain('entry: zEntry');
+      expect(output.indexOf('zEntry =')).toBeLessThan(output.indexOf('zRegistryregisterParams ='));
+    });
+  });
+
+  describe('argument validation', () => {
+    const source = `
+      export interface User { id: number; email: string }
+      export class UserService {
+        constructor(private apiKey: string) {}
+        getUser(id: number): User | null { return null; }
+        private audit(message: string): void {}
+        /** @validate */
+        private authorize(token: string): void {}
+        /** @noValidate */
+        ping(count: number): void {}
+      }
+      export function createUser(user: User, notify?: boolean): User { return user; }
+    `;
+    
+    test('should check arguments at the start of functions and methods', () => {
+      const output = transformSource(source, { validateParameters: true });
+      
+      expect(output).toContain('__validateArguments(zUserServicegetUserParams, { id }, "UserService.getUser");');
+      expect(output).toContain('__validateArguments(zUserServiceConstructorParams, { apiKey }, "UserService.constructor");');
+      expect(output).toContain('__validateArguments(zcreateUserParams, { user, notify }, "createUser");');
+      expect(output).toContain('user: zUser,');
+      expect(output).toContain('function __validateArguments(schema: z.ZodTypeAny, args: Record<string, unknown>, functionName: string): void {');
+      expect(output).not.toContain('__validateReturnValue');
+    });
+    
+    test('should skip private methods unless tagged and honor @noValidate', () => {
+      const output = transformSource(source, { validateParameters: true });
+      
+      expect(output).not.toContain('zUserServiceauditParams');
+      expect(output).toContain('__validateArguments(zUserServiceauthorizeParams, { token }, "UserService.authorize");');
+      expect(output).not.toContain('zUserServicepingParams');
+    });
+    
+    test('should only validate tagged declarations when the option is off', () => {
+      const output = transformSource(`
+        export class Api {
+          /** @validate */
+          send(body: string): void {}
+          receive(body: string): void {}
+        }
+        /** @validate */
+        export function parse(input: string): number { return 0; }
+      `);
+      
+      expect(output).toContain('__validateArguments(zApisendParams, { body }, "Api.send");');
+      expect(output).toContain('__validateArguments(zparseParams, { input }, "parse");');
+      expect(output).not.toContain('zApireceiveParams');
+    });
+    
+    test('should check arguments after prologue directives and super calls', () => {
+      const output = transformSource(`
+        class Base { constructor(public name: string) {} }
+        export class Derived extends Base {
+          constructor(name: string, public size: number) {
+            super(name);
+          }
+        }
+        export function run(task: string): void {
+          'use strict';
+        }
+      `, { validateParameters: true });
+      
+      expect(output).toMatch(/super\(name\);\s+__validateArguments\(zDerivedConstructorParams/);
+      expect(output).toMatch(/'use strict';\s+__validateArguments\(zrunParams/);
+    });
+
+    test('should declare validators before code that runs while the module loads', () => {
+      const output = transformSource(`
+        export function parse(input: string): number { return 0; }
+        export const DEFAULT = parse('1');
+      `, { validateParameters: true });
+
+      expect(output.indexOf('export const zparseParams')).toBeGreaterThan(output.indexOf('export function parse'));
+      expect(output.indexOf('function __validateArguments')).toBeLessThan(output.indexOf('export const DEFAULT'));
+      expect(output.indexOf('export const zparseParams')).toBeLessThan(output.indexOf('export const DEFAULT'));
+    });
+
+    test('should reference imported schemas and honor compiler options in validators', () => {
+      const output = transformFiles({
+        '/project/src/user.ts': 'export interface User { id: string }',
+        '/project/src/api.ts': `
+          import { User } from './user';
+          export function save(user: User, patch: { name?: string }): void {}
+        `
+      }, '/project/src/api.ts', { validateParameters: true }, { strict: true, exactOptionalPropertyTypes: true });
+
+      expect(output).toContain('import { zUser } from "./user";');
+      expect(output).toContain('user: zUser,');
+      expect(output).toContain("Expected value, received undefined");
+    });
+  });
+
+  describe('return value validation', () => {
+    const source = `
+      export interface User { id: number; email: string }
+      export class UserService {
+        async getUser(id: number): Promise<User | null> {
+          const ids = [id].map(value => { return value; });
+          return ids.length ? { id, email: 'user@example.com' } : null;
+        }
+        count(): number { return 0; }
+        log(message: string): void {}
+      }
+      export function loadUser(id: number): Promise<User> { return fetchUser(id); }
+      declare function fetchUser(id: number): Promise<User>;
+    `;
+    
+    test('should validate the values functions and methods return', () => {
+      const output = transformSource(source, { validateReturnValues: true });
+      
+      expect(output).toContain('return __validateReturnValue(zUserServicecountReturn, 0, "UserService.count", false);');
+      expect(output).toContain('export const zUserServicecountReturn = z.number();');
+      expect(output).toContain('function __validateReturnValue(schema: z.ZodTypeAny, value: any, functionName: string, awaited: boolean): any {');
+      expect(output).not.toContain('zUserServicelogReturn');
+      expect(output).not.toContain('__validateArguments');
+    });
+    
+    test('should validate the resolved value of promises', () => {
+      const output = transformSource(source, { validateReturnValues: true });
+      
+      expect(output).toContain('export const zUserServicegetUserReturn = zUser.nullable();');
+      expect(output).toContain('"UserService.getUser", true);');
+      expect(output).toContain('return __validateReturnValue(zloadUserReturn, fetchUser(id), "loadUser", true);');
+      expect(output).toContain('export const zloadUserReturn = zUser;');
+    });
+    
+    test('should leave return statements of nested functions alone', () => {
+      const output = transformSource(source, { validateReturnValues: true });
+      
+      expect(output).toContain('.map(value => { return value; })');
+    });
+  });
+
+  describe('type selection', () => {
+    const source = `
+      interface Secret { key: string }
+      interface AuditEntry { at: number }
+      export interface Vault { secret: Secret; entries: AuditEntry[] }
+      export interface UserDto { name: string }
+    `;
+    
+    test('should only generate schemas for exported types with onlyExported', () => {
+      const output = transformSource(source, { onlyExported: true });
+      
+      expect(output).toContain('export const zVault = z.object({');
+      expect(output).not.toContain('_zSecret');
+      expect(output).toContain('secret: z.object({');
+    });
+    
+    test('should generate schemas for included types that are not exported', () => {
+      const output = transformSource(source, { onlyExported: true, includedTypes: ['Audit*'] });
+      
+      expect(output).toContain('const _zAuditEntry = z.object({');
+      expect(output).toContain('entries: z.array(_zAuditEntry)');
+      expect(output).not.toContain('_zSecret');
+    });
+    
+    test('should exclude types matching a pattern', () => {
+      const output = transformSource(source, { excludedTypes: ['/Dto$/'] });
+      
+      expect(output).not.toContain('zUserDto');
+      expect(output).toContain('export const zVault');
+    });
+  });
+
+  describe('JSDoc tags', () => {
+    const source = `
+      /** @noZod */
+      export interface Internal { key: string }
+      /** @zod */
+      interface Hidden { x: number }
+      /** @zod-name UserShape */
+      export interface User { name: string }
+      export interface Holder { user: User; internal: Internal; hidden: Hidden }
+    `;
+    
+    test('should skip types tagged @noZod', () => {
+      const output = transformSource(source);
+      
+      expect(output).not.toContain('zInternal');
+      expect(output).toContain('internal: z.object({');
+    });
+    
+    test('should generate schemas for types tagged @zod regardless of selection options', () => {
+      const output = transformSource(source, { onlyExported: true, excludedTypes: ['Hidden'] });
+      
+      expect(output).toContain('const _zHidden = z.object({');
+      expect(output).toContain('hidden: _zHidden');
+    });
+    
+    test('should name schemas after @zod-name', () => {
+      const output = transformSource(source);
+      
+      expect(output).toContain('export const UserShape = z.object({');
+      expect(output).toContain('user: UserShape,');
+    });
+    
+    test('should import schemas named with @zod-name from other files', () => {
+      const output = transformFiles({
+        '/project/src/user.ts': '/** @zod-name UserShape */\nexport interface User { name: string }',
+        '/project/src/group.ts': `
+          import { User } from './user';
+          export interface Group { owner: User }
+        `
+      }, '/project/src/group.ts');
+      
+      expect(output).toContain('import { UserShape } from "./user";');
+      expect(output).toContain('owner: UserShape');
+    });
+  });
+
+  describe('JSDoc constraints', () => {
+    test('should refine numbers, strings and arrays', () => {
+      const output = transformSource(`
+        export interface Product {
+          /** @minimum 0 @maximum 100 @int */
+          quantity: number;
+          /**
+           * @minLength 2
+           * @maxLength 10
+           * @pattern ^[A-Z]+/\\d$
+           */
+          code: string;
+          /** @minLength 1 */
+          tags: string[];
+        }
+      `);
+      
+      expect(output).toContain('quantity: z.number().min(0).max(100).int(),');
+      expect(output).toContain('code: z.string().min(2).max(10).regex(/^[A-Z]+\\/\\d$/),');
+      expect(output).toContain('tags: z.array(z.string()).min(1)');
+    });
+    
+    test('should map formats to string validations', () => {
+      const output = transformSource(`
+        export interface Contact {
+          /** @format email */
+          email?: string;
+          /** @format uuid */
+          id: string;
+          /** @format url */
+          homepage: string;
+          /** @format date-time */
+          updatedAt: string;
+        }
+      `);
+      
+      expect(output).toContain('email: z.string().email().optional(),');
+      expect(output).toContain('id: z.string().uuid(),');
+      expect(output).toContain('homepage: z.string().url(),');
+      expect(output).toContain('updatedAt: z.string().datetime()');
+    });
+    
+    test('should apply defaults', () => {
+      const output = transformSource(`
+        export interface Settings {
+          /** @default "draft" */
+          status?: 'draft' | 'live';
+          /** @default 5 */
+          retries?: number;
+          /** @default hello world */
+          greeting?: string;
+        }
+      `);
+      
+      expect(output).toContain('status: z.enum(["draft", "live"]).optional().default("draft"),');
+      expect(output).toContain('retries: z.number().optional().default(5),');
+      expect(output).toContain('greeting: z.string().optional().default("hello world")');
+    });
+    
+    test('should ignore tags that do not apply to the property type', () => {
+      const output = transformSource(`
+        export interface Person {
+          /** @minimum 3 */
+          name: string;
+          /** @format phone */
+          phone: string;
+          /** @pattern ^a */
+          age: number;
+        }
+      `);
+      
+      expect(output).toContain('name: z.string(),');
+      expect(output).toContain('phone: z.string(),');
+      expect(output).toContain('age: z.number()');
+    });
+  });
+
+  describe('JSDoc descriptions', () => {
+    test('should describe types and properties with their JSDoc summary', () => {
+      const output = transformSource(`
+        /**
+         * A registered "user"
+         */
+        export interface User {
+          /** Unique identifier */
+          id: number;
+          /**
+           * Display name
+           * @minLength 1
+           */
+          name?: string;
+          email: string;
+        }
+      `);
+
+      expect(output).toContain('id: z.number().describe("Unique identifier"),');
+      expect(output).toContain('name: z.string().min(1).optional().describe("Display name"),');
+      expect(output).toContain('email: z.string()\n}).describe("A registered \\"user\\"");');
+    });
+
+    test('should carry @deprecated into schema metadata', () => {
+      const output = transformSource(`
+        export interface Address {
+          city: string;
+        }
+
+        export interface Customer {
+          /**
+           * Full name
+           * @deprecated Use firstName and lastName
+           */
+          name: string;
+          /** @deprecated */
+          address: Address;
+        }
+
+        /** @deprecated */
+        export type Client = Customer;
+      `);
+
+      expect(output).toContain(
+        'name: Object.assign(z.string().describe("Full name"), { metadata: { deprecated: "Use firstName and lastName" } }),'
+      );
+      expect(output).toContain(
+        'address: Object.assign(zAddress.describe(""), { _def: Object.assign({}, zAddress._def), metadata: { deprecated: true } })'
+      );
+      expect(output).toContain(
+        'export const zClient = Object.assign(zCustomer.describe(""), { _def: Object.assign({}, zCustomer._def), metadata: { deprecated: true } });'
+      );
+      expect(getTypeErrors(output, { strict: true })).toEqual([]);
+    });
+
+    test('should not document parameter and return value schemas with the function', () => {
+      const output = transformSource(`
+        /**
+         * Fetch a user
+         * @deprecated use find
+         */
+        export function getUser(id: number): boolean { return true; }
+      `, { validateParameters: true, validateReturnValues: true });
+
+      expect(output).toContain('id: z.number()\n');
+      expect(output).toContain('export const zgetUserReturn = z.boolean();');
+      expect(output).not.toContain('.describe(');
+      expect(output).not.toContain('metadata');
+    });
+  });
+
+  describe('declaration order', () => {
+    test('should declare schemas after the schemas they reference', () => {
+      const output = transformSource(`
+        export type Draft = Partial<Order>;
+        export interface Order { items: Item[]; total: Money }
+        export interface Item { price: Money }
+        export interface Money { amount: number }
+        export interface Unrelated { note: string }
+      `);
+      const position = (name: string) => output.indexOf(`const z${name} =`);
+      
+      expect(position('Money')).toBeLessThan(position('Item'));
+      expect(position('Item')).toBeLessThan(position('Order'));
+      expect(position('Order')).toBeLessThan(position('Draft'));
+      expect(position('Draft')).toBeLessThan(position('Unrelated'));
+      expect(output).not.toContain('z.lazy');
+    });
+    
+    test('should only reference schemas in a cycle lazily', () => {
+      const output = transformSource(`
+        export interface Department { manager: Employee; budget: Budget }
+        export interface Employee { department: Department }
+        export interface Budget { amount: number }
+      `);
+      
+      expect(output).toContain('export const zDepartment: z.ZodType<Department, z.ZodTypeDef, unknown> =');
+      expect(output).toContain('export const zEmployee: z.ZodType<Employee, z.ZodTypeDef, unknown> =');
+      expect(output).toContain('manager: z.lazy(() => zEmployee)');
+      expect(output).toContain('department: z.lazy(() => zDepartment)');
+      expect(output).toContain('budget: zBudget');
+      expect(output).toContain('export const zBudget = z.object({');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import ts from 'typescript';
-import { typeToZodSchema, generateClassValidators, processTypeWithWorker } from '../type-processor';
+import { typeToZodSchema, generateZodSchema, generateClassValidators, processTypeWithWorker } from '../type-processor';
 import { globalTypeCache } from '../cache';
 import { TypeCompilerOptions } from '../types';
 
@@ -13,6 +13,48 @@ jest.mock('../parallel', () => ({
   getWorkerPool: jest.fn().mockReturnValue(null)
 }));
 
+// Parsed library files shared between test programs
+const libFileCache = new Map<string, ts.SourceFile | undefined>();
+
+// Build a program from in-memory source and look up a declared type by name
+function getDeclaredType(
+  code: string,
+  typeName: string,
+  compilerOptions: ts.CompilerOptions = { strict: true }
+): { type: ts.Type; typeChecker: ts.TypeChecker; program: ts.Program } {
+  const fileName = 'test.ts';
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+  const host = ts.createCompilerHost(compilerOptions);
+  const program = ts.createProgram([fileName], compilerOptions, {
+    ...host,
+    getSourceFile: (name, languageVersion) => {
+      if (name === fileName) {
+        return sourceFile;
+      }
+      if (!libFileCache.has(name)) {
+        libFileCache.set(name, host.getSourceFile(name, languageVersion));
+      }
+      return libFileCache.get(name);
+    }
+  });
+  const typeChecker = program.getTypeChecker();
+  
+  const declaration = sourceFile.statements.find(
+    (statement): statement is ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration | ts.ClassDeclaration =>
+      (ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name?.text === typeName
+  );
+  
+  if (!declaration) {
+    throw new Error(`Type ${typeName} not found`);
+  }
+  
+  return { type: typeChecker.getTypeAtLocation(declaration), typeChecker, program };
+}
+
 describe('Type Processor Module', () => {
   beforeEach(() => {
     // Clear the cache before each test
@@ -39,8 +81,8 @@ describe('Type Processor Module', () => {
         mockTypeChecker
       );
       
-      // Our simplified implementation just returns z.object({})
-      expect(result).toBe('z.object({})');
+      // Primitive types map directly to their Zod counterparts
+      expect(result).toBe('z.string()');
     });
     
     test('should handle different type inputs', () => {
@@ -67,9 +109,548 @@ describe('Type Processor Module', () => {
         {} as ts.Program
       );
       
-      // Both should return the same simplified result
-      expect(result1).toBe('z.object({})');
-      expect(result2).toBe('z.object({})');
+      // Both should return the same result
+      expect(result1).toBe('z.string()');
+      expect(result2).toBe('z.string()');
+    });
+  });
+
+  describe('typeToZodSchema with a real type checker', () => {
+    test('should map primitive property types', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface User {
+          id: number;
+          name: string;
+          isActive: boolean;
+          balance: bigint;
+          deletedAt: null;
+          extra: unknown;
+          raw: any;
+        }
+      `, 'User');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('id: z.number()');
+      expect(result).toContain('name: z.string()');
+      expect(result).toContain('isActive: z.boolean()');
+      expect(result).toContain('balance: z.bigint()');
+      expect(result).toContain('deletedAt: z.null()');
+      expect(result).toContain('extra: z.unknown()');
+      expect(result).toContain('raw: z.any()');
+    });
+    
+    test('should convert nested object types and quote non-identifier keys', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface ApiRequest {
+          headers: { 'content-type': string };
+          handler: () => void;
+        }
+      `, 'ApiRequest');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('"content-type": z.string()');
+      expect(result).toContain('handler: z.function()');
+    });
+    
+    test('should layer special field validators over inferred types', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface Contact {
+          email: string;
+          age: number;
+        }
+      `, 'Contact');
+      
+      const result = typeToZodSchema(type, typeChecker, undefined, {
+        specialFieldValidators: { email: 'z.string().email()' }
+      });
+      
+      expect(result).toContain('email: z.string().email()');
+      expect(result).toContain('age: z.number()');
+    });
+  });
+
+  describe('optional and nullable properties', () => {
+    const source = `
+      interface Profile {
+        id: string;
+        nickname?: string;
+        avatar: string | null;
+        bio?: string | null;
+        website: string | undefined;
+        note?: string | undefined;
+      }
+    `;
+    
+    test('should emit optional, nullable and nullish modifiers', () => {
+      const { type, typeChecker, program } = getDeclaredType(source, 'Profile');
+      
+      const result = typeToZodSchema(type, typeChecker, program);
+      
+      expect(result).toContain('id: z.string(),');
+      expect(result).toContain('nickname: z.string().optional()');
+      expect(result).toContain('avatar: z.string().nullable()');
+      expect(result).toContain('bio: z.string().nullish()');
+      expect(result).toContain('website: z.string().optional()');
+      // website may be undefined but must be present
+      expect(result).toContain('if (!("website" in value))');
+      // optional properties may be undefined without exactOptionalPropertyTypes
+      expect(result).not.toContain('"nickname" in value');
+      expect(result).not.toContain('"note" in value');
+    });
+    
+    test('should treat boolean | null as a nullable boolean', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Flags { enabled: boolean | null }
+      `, 'Flags');
+      
+      expect(typeToZodSchema(type, typeChecker, program)).toContain('enabled: z.boolean().nullable()');
+    });
+    
+    test('should distinguish missing from undefined with exactOptionalPropertyTypes', () => {
+      const { type, typeChecker, program } = getDeclaredType(source, 'Profile', {
+        strict: true,
+        exactOptionalPropertyTypes: true
+      });
+      
+      const result = typeToZodSchema(type, typeChecker, program);
+      
+      expect(result).toContain('nickname: z.string().optional()');
+      expect(result).toContain('.superRefine((value, ctx) => {');
+      // nickname may be missing but not present as undefined
+      expect(result).toContain('if ("nickname" in value && value["nickname"] === undefined)');
+      // website may be undefined but must be present
+      expect(result).toContain('if (!("website" in value))');
+      // note explicitly allows undefined, so it needs no check
+      expect(result).not.toContain('"note" in value');
+    });
+    
+    test('should let mapped properties allow undefined where the source property declares it', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Contact { email: string; phone: string | undefined }
+        type ContactDraft = Partial<Contact>;
+      `, 'ContactDraft', {
+        strict: true,
+        exactOptionalPropertyTypes: true
+      });
+      
+      const result = typeToZodSchema(type, typeChecker, program);
+      
+      expect(result).toContain('if ("email" in value && value["email"] === undefined)');
+      expect(result).not.toContain('"phone" in value');
+    });
+  });
+
+  describe('literal and union types', () => {
+    test('should compile string literal unions to z.enum', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        type UserRole = 'admin' | 'editor' | 'viewer';
+      `, 'UserRole');
+      
+      expect(typeToZodSchema(type, typeChecker)).toBe('z.enum(["admin", "editor", "viewer"])');
+    });
+    
+    test('should compile mixed literal unions to z.union of z.literal', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        type Answer = 42 | 'yes' | true;
+      `, 'Answer');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toMatch(/^z\.union\(\[/);
+      expect(result).toContain('z.literal(42)');
+      expect(result).toContain('z.literal("yes")');
+      expect(result).toContain('z.literal(true)');
+    });
+    
+    test('should compile general unions to z.union', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface Setting {
+          value: string | number | boolean;
+        }
+      `, 'Setting');
+      
+      expect(typeToZodSchema(type, typeChecker)).toContain(
+        'value: z.union([z.string(), z.number(), z.boolean()])'
+      );
+    });
+  });
+
+  describe('discriminated unions', () => {
+    test('should emit z.discriminatedUnion for tagged object unions', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface Circle { kind: 'circle'; radius: number }
+        interface Square { kind: 'square'; size: number }
+        type Shape = Circle | Square;
+      `, 'Shape');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toMatch(/^z\.discriminatedUnion\("kind", \[/);
+      expect(result).toContain('kind: z.literal("circle")');
+      expect(result).toContain('kind: z.literal("square")');
+    });
+    
+    test('should fall back to z.union when discriminant values collide', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        type Event =
+          | { type: 'created'; id: string }
+          | { type: 'created'; id: number };
+      `, 'Event');
+      
+      expect(typeToZodSchema(type, typeChecker)).toMatch(/^z\.union\(\[/);
+    });
+    
+    test('should fall back to z.union when no property is a literal', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        type Payload = { a: string } | { b: number };
+      `, 'Payload');
+      
+      expect(typeToZodSchema(type, typeChecker)).toMatch(/^z\.union\(\[/);
+    });
+  });
+
+  describe('intersection types', () => {
+    const source = `
+      interface Timestamps { createdAt: string }
+      interface Owner { ownerId: string }
+      type Owned = Timestamps & Owner;
+      type Tagged = Timestamps & { tag: string };
+      type Inline = { a: string } & { b: number };
+      type UserId = string & { __brand: 'UserId' };
+    `;
+    
+    // Schema names for the named declarations, as the transformer would provide them
+    function getSchemaNames(typeChecker: ts.TypeChecker, program: ts.Program): Map<ts.Symbol, string> {
+      const schemaNames = new Map<ts.Symbol, string>();
+      const sourceFile = program.getSourceFile('test.ts')!;
+      for (const statement of sourceFile.statements) {
+        if (ts.isInterfaceDeclaration(statement)) {
+          schemaNames.set(typeChecker.getSymbolAtLocation(statement.name)!, `${statement.name.text}Schema`);
+        }
+      }
+      return schemaNames;
+    }
+    
+    test('should merge the schemas of named members', () => {
+      const { type, typeChecker, program } = getDeclaredType(source, 'Owned');
+      
+      const result = typeToZodSchema(type, typeChecker, program, {}, getSchemaNames(typeChecker, program));
+      
+      expect(result).toBe('TimestampsSchema.merge(OwnerSchema)');
+    });
+    
+    test('should merge named members with inline object members', () => {
+      const { type, typeChecker, program } = getDeclaredType(source, 'Tagged');
+      
+      const result = typeToZodSchema(type, typeChecker, program, {}, getSchemaNames(typeChecker, program));
+      
+      expect(result).toMatch(/^TimestampsSchema\.merge\(z\.object\(\{/);
+      expect(result).toContain('tag: z.string()');
+    });
+    
+    test('should flatten anonymous members into a single object', () => {
+      const { type, typeChecker, program } = getDeclaredType(source, 'Inline');
+      
+      const result = typeToZodSchema(type, typeChecker, program);
+      
+      expect(result).toBe('z.object({\n  a: z.string(),\n  b: z.number()\n})');
+    });
+    
+    test('should validate branded primitives as the primitive', () => {
+      const { type, typeChecker, program } = getDeclaredType(source, 'UserId');
+      
+      expect(typeToZodSchema(type, typeChecker, program)).toBe('z.string()');
+    });
+  });
+
+  describe('array and tuple types', () => {
+    const source = `
+      interface Collections {
+        roles: string[];
+        scores: Array<number>;
+        frozen: readonly boolean[];
+        pair: [string, number];
+        partial: [string, number?];
+        varargs: [string, number, ...boolean[]];
+        trailing: [...string[], number];
+      }
+    `;
+    
+    test('should compile arrays using the element type', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'Collections');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('roles: z.array(z.string())');
+      expect(result).toContain('scores: z.array(z.number())');
+      expect(result).toContain('frozen: z.array(z.boolean())');
+    });
+    
+    test('should compile tuples with optional and rest elements', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'Collections');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('pair: z.tuple([z.string(), z.number()])');
+      expect(result).toContain(
+        'partial: z.union([z.tuple([z.string()]), z.tuple([z.string(), z.number().optional()])])'
+      );
+      expect(result).toContain('varargs: z.tuple([z.string(), z.number()]).rest(z.boolean())');
+      // Zod cannot express a leading rest element
+      expect(result).toContain('trailing: z.array(z.union([z.string(), z.number()]))');
+    });
+  });
+
+  describe('recursive types', () => {
+    test('should reference recursive types lazily through their schema', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Category { name: string; parent?: Category }
+      `, 'Category');
+      const schemaNames = new Map([[type.symbol, 'CategorySchema']]);
+      
+      const result = generateZodSchema(type, typeChecker, program, {}, { schemaNames });
+      
+      expect(result.schema).toContain('parent: z.lazy(() => CategorySchema).optional()');
+      expect(result.lazyReferences).toEqual(new Set(['CategorySchema']));
+    });
+    
+    test('should reference named property types through their schema', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Address { city: string }
+        interface Customer { address: Address }
+      `, 'Customer');
+      const address = type.getProperties()[0];
+      const addressType = typeChecker.getTypeOfSymbol(address);
+      const schemaNames = new Map([[addressType.symbol, 'AddressSchema']]);
+      
+      const result = generateZodSchema(type, typeChecker, program, {}, { schemaNames });
+      
+      expect(result.schema).toContain('address: AddressSchema');
+      expect(result.dependencies).toEqual(new Set(['AddressSchema']));
+      expect(result.lazyReferences.size).toBe(0);
+    });
+    
+    test('should terminate on recursive types without a schema name', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Category { name: string; children: Category[] }
+      `, 'Category');
+      
+      const result = generateZodSchema(type, typeChecker, program);
+      
+      expect(result.schema).toContain('children: z.array(z.any())');
+      expect(result.lazyReferences.size).toBe(0);
+    });
+  });
+
+  describe('generic types', () => {
+    test('should map type parameters to factory parameters', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Page<TItem, TCursor = string> { items: TItem[]; next?: TCursor }
+      `, 'Page');
+      
+      const result = generateZodSchema(
+        type, typeChecker, program, {}, { declaration: type.symbol.declarations![0] }
+      );
+      
+      expect(result.schema).toContain('items: z.array(tItemSchema)');
+      expect(result.schema).toContain('next: tCursorSchema.optional()');
+      expect(result.typeParameters).toEqual([
+        { name: 'tItemSchema', defaultSchema: undefined },
+        { name: 'tCursorSchema', defaultSchema: 'z.string()' }
+      ]);
+    });
+    
+    test('should fall back to the constraint without a declaration', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Labeled<T extends string> { label: T }
+      `, 'Labeled');
+      
+      const result = generateZodSchema(type, typeChecker, program);
+      
+      expect(result.schema).toContain('label: z.string()');
+      expect(result.typeParameters).toBeUndefined();
+    });
+  });
+
+  describe('mapped and conditional types', () => {
+    test('should resolve custom mapped types and key remapping', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface Point { x: number; y: number }
+        type Getters = { [K in keyof Point as \`get\${Uppercase<K>}\`]: Point[K] | null };
+      `, 'Getters');
+      
+      const schema = typeToZodSchema(type, typeChecker, program);
+      
+      expect(schema).toContain('getX: z.number().nullable()');
+      expect(schema).toContain('getY: z.number().nullable()');
+    });
+    
+    test('should resolve conditional types within mapped types', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        type DateToString<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] };
+        interface Event { name: string; at: Date }
+        type SerializedEvent = DateToString<Event>;
+      `, 'SerializedEvent');
+      
+      const schema = typeToZodSchema(type, typeChecker, program);
+      
+      expect(schema).toContain('name: z.string()');
+      expect(schema).toContain('at: z.string()');
+    });
+    
+    test('should use the branches of conditional types that depend on a type parameter', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        type Flag<T> = { value: T extends string ? 'text' : 'other' };
+      `, 'Flag');
+      
+      const schema = typeToZodSchema(type, typeChecker, program);
+      
+      expect(schema).toContain('value: z.enum(["text", "other"])');
+    });
+    
+    test('should not expand utility types of named types without a schema', () => {
+      const { type, typeChecker, program } = getDeclaredType(`
+        interface User { id: number; name: string }
+        type UserName = Pick<User, 'name'>;
+      `, 'UserName');
+      
+      const schema = typeToZodSchema(type, typeChecker, program);
+      
+      expect(schema).toContain('name: z.string()');
+      expect(schema).not.toContain('id:');
+    });
+  });
+
+  describe('enum types', () => {
+    const source = `
+      enum Status { Active = 'active', Inactive = 'inactive' }
+      enum Priority { Low, Medium, High }
+      const enum Direction { Up = 'up', Down = 'down' }
+      interface Task {
+        status?: Status;
+        priority: Priority;
+        direction: Direction;
+        pinned: Status.Active;
+      }
+    `;
+    
+    test('should compile regular enums to z.nativeEnum', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'Status');
+      
+      expect(typeToZodSchema(type, typeChecker)).toBe('z.nativeEnum(Status)');
+    });
+    
+    test('should expand const enums into their literal values', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'Direction');
+      
+      expect(typeToZodSchema(type, typeChecker)).toBe('z.union([z.literal("up"), z.literal("down")])');
+    });
+    
+    test('should compile enum-typed properties', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'Task');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('status: z.nativeEnum(Status).optional()');
+      expect(result).toContain('priority: z.nativeEnum(Priority)');
+      expect(result).toContain('direction: z.union([z.literal("up"), z.literal("down")])');
+      expect(result).toContain('pinned: z.literal("active")');
+    });
+  });
+
+  describe('built-in object types', () => {
+    test('should map well-known global classes', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface Resource {
+          createdAt: Date;
+          headers: Map<string, string[]>;
+          tags: Set<string>;
+          pattern: RegExp;
+          location: URL;
+          body: Uint8Array;
+          pending: Promise<number>;
+        }
+      `, 'Resource');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('createdAt: z.date()');
+      expect(result).toContain('headers: z.map(z.string(), z.array(z.string()))');
+      expect(result).toContain('tags: z.set(z.string())');
+      expect(result).toContain('pattern: z.instanceof(RegExp)');
+      expect(result).toContain('location: z.instanceof(URL)');
+      expect(result).toContain('body: z.instanceof(Uint8Array)');
+      expect(result).toContain('pending: z.promise(z.number())');
+    });
+    
+    test('should not treat user-declared classes with global names as built-ins', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        export class Date { timestamp = 0 }
+        export interface Event { at: Date }
+      `, 'Event');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).not.toContain('z.date()');
+      expect(result).toContain('timestamp: z.number()');
+    });
+  });
+
+  describe('index signatures and records', () => {
+    const source = `
+      interface Scores { [player: string]: number }
+      interface Labels { [index: number]: string }
+      interface HttpHeaders { host: string; [name: string]: string }
+      interface Entity { metadata?: Record<string, unknown>; flags: Record<'a' | 'b', boolean> }
+    `;
+    
+    test('should compile pure index signatures to z.record', () => {
+      const scores = getDeclaredType(source, 'Scores');
+      const labels = getDeclaredType(source, 'Labels');
+      
+      expect(typeToZodSchema(scores.type, scores.typeChecker)).toBe('z.record(z.string(), z.number())');
+      expect(typeToZodSchema(labels.type, labels.typeChecker)).toBe('z.record(z.coerce.number(), z.string())');
+    });
+    
+    test('should use .catchall for known properties mixed with an index signature', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'HttpHeaders');
+      
+      expect(typeToZodSchema(type, typeChecker)).toBe('z.object({\n  host: z.string()\n}).catchall(z.string())');
+    });
+    
+    test('should compile Record types', () => {
+      const { type, typeChecker } = getDeclaredType(source, 'Entity');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('metadata: z.record(z.string(), z.unknown()).optional()');
+      // Records over literal keys resolve to their concrete properties
+      expect(result).toContain('a: z.boolean()');
+      expect(result).toContain('b: z.boolean()');
+    });
+  });
+
+  describe('template literal types', () => {
+    test('should compile prefixed template literals to anchored regexes', () => {
+      const { type, typeChecker } = getDeclaredType('type UserId = `user_${string}`;', 'UserId');
+      
+      expect(typeToZodSchema(type, typeChecker)).toBe('z.string().regex(/^user_[\\s\\S]*$/)');
+    });
+    
+    test('should derive span patterns from number and literal union spans', () => {
+      const { type, typeChecker } = getDeclaredType(`
+        interface Style { width: \`\${number}px\`; path: \`/\${'a' | 'b'}/\${bigint}\` }
+      `, 'Style');
+      
+      const result = typeToZodSchema(type, typeChecker);
+      
+      expect(result).toContain('width: z.string().regex(/^-?(?:\\d+(?:\\.\\d*)?|\\.\\d+)(?:[eE][+-]?\\d+)?px$/)');
+      // The checker distributes literal unions into separate template literals
+      expect(result).toContain(
+        'path: z.union([z.string().regex(/^\\/a\\/-?\\d+$/), z.string().regex(/^\\/b\\/-?\\d+$/)])'
+      );
     });
   });
 
@@ -94,8 +675,8 @@ describe('Type Processor Module', () => {
         null // no worker pool
       );
       
-      // Our simplified implementation just returns z.object({}) when no worker pool
-      expect(result).toBe('z.object({})');
+      // Without a worker pool the type is converted synchronously
+      expect(result).toBe('z.string()');
     });
     
     test('should return a different result when worker pool is provided', () => {
@@ -1,5 +1,18 @@
 import ts from 'typescript';
-import { shouldProcessFile, shouldProcessType, isExported, generateStableTypeId } from '../utils';
+import {
+  shouldProcessFile,
+  shouldProcessType,
+  matchTypeName,
+  getTypeSkipReason,
+  getSchemaTags,
+  isExported,
+  generateStableTypeId,
+  getSchemaName,
+  getDeclaredValueNames,
+  getLoadTimeCodeIndex,
+  getRelativeModuleSpecifier,
+  groupByDependencies
+} from '../utils';
 import { TypeCompilerOptions } from '../types';
 
 describe('Utils Module', () => {
@@ -22,6 +35,46 @@ describe('Utils Module', () => {
       expect(shouldProcessFile('file.ts')).toBe(true);
       expect(shouldProcessFile('/path/to/file.ts')).toBe(true);
     });
+
+    test('should match patterns relative to the root directory', () => {
+      const excludePatterns = ['src/generated/*.ts'];
+      expect(shouldProcessFile('/project/src/generated/api.ts', excludePatterns, [], '/project')).toBe(false);
+      expect(shouldProcessFile('/project/src/generated/nested/api.ts', excludePatterns, [], '/project')).toBe(true);
+      expect(shouldProcessFile('/project/lib/src/generated/api.ts', excludePatterns, [], '/project')).toBe(true);
+      expect(shouldProcessFile('/project/src/generated/api.ts', ['/project/src/**'], [], '/project')).toBe(false);
+    });
+
+    test('should match files outside the root directory by their absolute path', () => {
+      expect(shouldProcessFile('/other/a.test.ts', ['**/*.test.ts'], [], '/proj')).toBe(false);
+      expect(shouldProcessFile('/repo/shared/user.test.ts', ['**/*.test.ts'], [], '/repo/app')).toBe(false);
+      expect(shouldProcessFile('/repo/shared/user.ts', ['**/*.test.ts'], [], '/repo/app')).toBe(true);
+      expect(shouldProcessFile('/repo/shared/user.ts', [], ['**/shared/**'], '/repo/app')).toBe(true);
+    });
+    
+    test('should support braces, character classes and negations', () => {
+      const excludePatterns = ['**/*.{test,spec}.ts', 'src/v[0-9]/**', 'src/[!a]*.ts', '!src/b-keep.ts'];
+      expect(shouldProcessFile('/project/src/user.test.ts', excludePatterns, [], '/project')).toBe(false);
+      expect(shouldProcessFile('/project/src/user.spec.ts', excludePatterns, [], '/project')).toBe(false);
+      expect(shouldProcessFile('/project/src/v2/user.ts', excludePatterns, [], '/project')).toBe(false);
+      expect(shouldProcessFile('/project/src/vx/user.ts', excludePatterns, [], '/project')).toBe(true);
+      expect(shouldProcessFile('/project/src/b-skip.ts', excludePatterns, [], '/project')).toBe(false);
+      expect(shouldProcessFile('/project/src/b-keep.ts', excludePatterns, [], '/project')).toBe(true);
+      expect(shouldProcessFile('/project/src/a.ts', excludePatterns, [], '/project')).toBe(true);
+    });
+
+    test('should not match dotfiles with wildcards unless the pattern names the dot', () => {
+      expect(shouldProcessFile('/project/.storybook/user.test.ts', ['**/*.test.ts'], [], '/project')).toBe(true);
+      expect(shouldProcessFile('/project/.storybook/user.test.ts', ['.storybook/**'], [], '/project')).toBe(false);
+    });
+
+    test('should only process files matching include patterns', () => {
+      const includePatterns = ['src/models/**', 'src/api/*.ts'];
+      expect(shouldProcessFile('/project/src/models/user.ts', [], includePatterns, '/project')).toBe(true);
+      expect(shouldProcessFile('/project/src/api/user.ts', [], includePatterns, '/project')).toBe(true);
+      expect(shouldProcessFile('/project/src/cli.ts', [], includePatterns, '/project')).toBe(false);
+      expect(shouldProcessFile('/project/src/models/user.test.ts', ['**/*.test.ts'], includePatterns, '/project'))
+        .toBe(false);
+    });
   });
 
   describe('shouldProcessType', () => {
@@ -67,6 +120,75 @@ describe('Utils Module', () => {
       expect(shouldProcessType(exportedDecl, [])).toBe(true);
       expect(shouldProcessType(nonExportedDecl, [])).toBe(true);
     });
+
+    test('should skip types that are not exported when onlyExported is set', () => {
+      const exportedDecl = createMockDeclaration('Exported', true);
+      const nonExportedDecl = createMockDeclaration('NonExported', false);
+      
+      expect(shouldProcessType(exportedDecl, [], [], true)).toBe(true);
+      expect(shouldProcessType(nonExportedDecl, [], [], true)).toBe(false);
+      expect(shouldProcessType(nonExportedDecl, [], ['NonExported'], true)).toBe(true);
+    });
+
+    test('should let excludedTypes win over includedTypes', () => {
+      const decl = createMockDeclaration('Internal', false);
+      
+      expect(shouldProcessType(decl, ['Internal'], ['Internal'], true)).toBe(false);
+    });
+
+    test('should match type names against glob and regex patterns', () => {
+      expect(shouldProcessType(createMockDeclaration('UserDto'), ['*Dto'])).toBe(false);
+      expect(shouldProcessType(createMockDeclaration('IUser'), ['/^I[A-Z]/'])).toBe(false);
+      expect(shouldProcessType(createMockDeclaration('Identity'), ['/^I[A-Z]/'])).toBe(true);
+    });
+  });
+
+  describe('matchTypeName', () => {
+    test('should match exact names, globs and regular expressions', () => {
+      expect(matchTypeName('User', 'User')).toBe(true);
+      expect(matchTypeName('UserDto', 'User')).toBe(false);
+      expect(matchTypeName('UserDto', '*Dto')).toBe(true);
+      expect(matchTypeName('Internal1', 'Internal?')).toBe(true);
+      expect(matchTypeName('Internal12', 'Internal?')).toBe(false);
+      expect(matchTypeName('userEvent', '/event$/i')).toBe(true);
+    });
+
+    test('should not match invalid regular expressions', () => {
+      expect(matchTypeName('User', '/[/')).toBe(false);
+    });
+  });
+
+  describe('getSchemaTags', () => {
+    test('should read @zod, @noZod and @zod-name tags', () => {
+      const sourceFile = ts.createSourceFile('test.ts', `
+        /**
+         * A user
+         * @zod
+         * @zod-name UserShape
+         */
+        interface User {}
+        /** @noZod */
+        interface Secret {}
+        interface Plain {}
+      `, ts.ScriptTarget.Latest, true);
+      const [user, secret, plain] = sourceFile.statements;
+      
+      expect(getSchemaTags(user)).toEqual({ generate: true, schemaName: 'UserShape' });
+      expect(getSchemaTags(secret)).toEqual({ generate: false });
+      expect(getSchemaTags(plain)).toEqual({});
+    });
+  });
+
+  describe('getTypeSkipReason', () => {
+    test('should explain why a type is skipped', () => {
+      const decl = {
+        name: { text: 'Secret' } as ts.Identifier
+      } as ts.InterfaceDeclaration;
+      
+      expect(getTypeSkipReason(decl, { excludedTypes: ['Sec*'] })).toBe('it matches excludedTypes entry "Sec*"');
+      expect(getTypeSkipReason(decl, { onlyExported: true })).toBe('it is not exported and onlyExported is set');
+      expect(getTypeSkipReason(decl)).toBeUndefined();
+    });
   });
 
   describe('isExported', () => {
@@ -94,4 +216,102 @@ describe('Utils Module', () => {
       expect(isExported(mockNonExportedDecl)).toBe(false);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('getSchemaName', () => {
+    test('should prefix the type name with zodSchemaPrefix', () => {
+      expect(getSchemaName('User', 'type')).toBe('zUser');
+      expect(getSchemaName('User', 'type', { zodSchemaPrefix: 'schema' })).toBe('schemaUser');
+      expect(getSchemaName('User', 'type', { zodSchemaPrefix: '' })).toBe('User');
+    });
+    
+    test('should prefer the schemaNaming template or function', () => {
+      const options: TypeCompilerOptions = { zodSchemaPrefix: 'schema', schemaNaming: '{name}Schema' };
+      expect(getSchemaName('User', 'type', options)).toBe('UserSchema');
+      
+      const schemaNaming = jest.fn((typeName: string) => `${typeName}Validator`);
+      expect(getSchemaName('Box', 'genericType', { schemaNaming })).toBe('BoxValidator');
+      expect(schemaNaming).toHaveBeenCalledWith('Box', 'genericType');
+    });
+  });
+
+  describe('getDeclaredValueNames', () => {
+    test('should collect top-level value declarations but not types', () => {
+      const sourceFile = ts.createSourceFile('test.ts', `
+        import z, { ZodType as Type } from 'zod';
+        import * as models from './models';
+        const zUser = 1, { a, b: [c] } = {} as any;
+        function zOrder() {}
+        class Service {}
+        enum Role { Admin }
+        namespace Api {}
+        interface User {}
+        type Order = {};
+      `, ts.ScriptTarget.Latest);
+      
+      expect(Array.from(getDeclaredValueNames(sourceFile)).sort()).toEqual(
+        ['Api', 'Role', 'Service', 'Type', 'a', 'c', 'models', 'z', 'zOrder', 'zUser'].sort()
+      );
+    });
+  });
+
+  describe('getLoadTimeCodeIndex', () => {
+    test('should find the first statement that runs code while the module loads', () => {
+      const sourceFile = ts.createSourceFile('test.ts', `
+        'use strict';
+        import { a } from './a';
+        export * from './b';
+        interface User {}
+        type Id = string;
+        function parse() {}
+        enum Role { Admin }
+        declare const config: unknown;
+        export const DEFAULT = parse();
+        class Service {}
+      `, ts.ScriptTarget.Latest);
+      
+      expect(getLoadTimeCodeIndex(sourceFile)).toBe(8);
+    });
+    
+    test('should return the statement count when no statement runs code', () => {
+      const sourceFile = ts.createSourceFile('test.ts', 'interface User {}', ts.ScriptTarget.Latest);
+      
+      expect(getLoadTimeCodeIndex(sourceFile)).toBe(1);
+    });
+  });
+
+  describe('getRelativeModuleSpecifier', () => {
+    test('should create relative specifiers without the source extension', () => {
+      expect(getRelativeModuleSpecifier('/src/order.ts', '/src/user.ts')).toBe('./user');
+      expect(getRelativeModuleSpecifier('/src/orders/order.ts', '/src/models/user.tsx')).toBe('../models/user');
+      expect(getRelativeModuleSpecifier('/src/order.ts', '/src/models/index.ts')).toBe('./models/index');
+    });
+    
+    test('should name the emitted file when extensions are required', () => {
+      expect(getRelativeModuleSpecifier('/src/order.ts', '/src/user.ts', true)).toBe('./user.js');
+      expect(getRelativeModuleSpecifier('/src/order.mts', '/src/user.mts', true)).toBe('./user.mjs');
+      expect(getRelativeModuleSpecifier('/src/order.ts', '/src/user.cts', true)).toBe('./user.cjs');
+    });
+  });
+
+  describe('groupByDependencies', () => {
+    test('should order items after their dependencies and keep independent items in order', () => {
+      const dependencies: Record<string, string[]> = { a: ['c'], b: [], c: ['d'], d: [] };
+      
+      const groups = groupByDependencies(['a', 'b', 'c', 'd'], item => dependencies[item]);
+      
+      expect(groups).toEqual([['d'], ['c'], ['a'], ['b']]);
+    });
+    
+    test('should group items that depend on each other in a cycle', () => {
+      const dependencies: Record<string, string[]> = { a: ['b'], b: ['c', 'a'], c: [], d: ['a'] };
+      
+      const groups = groupByDependencies(['a', 'b', 'c', 'd'], item => dependencies[item]);
+      
+      expect(groups).toEqual([['c'], ['a', 'b'], ['d']]);
+    });
+    
+    test('should ignore dependencies that are not items', () => {
+      expect(groupByDependencies(['a'], () => ['external'])).toEqual([['a']]);
+    });
+  });
+});
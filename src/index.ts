@@ -44,7 +44,7 @@ export function zodSchemaPlugin(program: ts.Program, options: TypeCompilerOption
 
 // Export main API
 export { createTypeCompilerPlugin } from './transformers';
-export { typeToZodSchema } from './type-processor';
+export { typeToZodSchema, generateZodSchema } from './type-processor';
 export * from './types';
 export * from './cache';
 export * from './parallel';
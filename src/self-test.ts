@@ -53,11 +53,11 @@ export class UserService {
 export function validateSelfTest(): boolean {
   try {
     // In a real implementation, we would import and use the generated schemas:
-    // import { zTestUser, zUserRole, zUserServiceConstructor } from './self-test';
+    // import { zTestUser, zUserRole, zUserServiceConstructorParams } from './self-test';
     
     // const user = zTestUser.parse({...});
     // const role = zUserRole.parse('admin');
-    // const [apiKey, timeout] = zUserServiceConstructor.parse(['key', 5000]);
+    // const { apiKey, timeout } = zUserServiceConstructorParams.parse({ apiKey: 'key', timeout: 5000 });
     
     console.log('Self-test validation would check the generated schemas here');
     return true;
@@ -1,20 +1,78 @@
 import ts from 'typescript';
-import { TypeCompilerOptions } from './types';
-import { typeToZodSchema } from './type-processor';
-import { shouldProcessFile, shouldProcessType, isExported } from './utils';
+import path from 'path';
+import { TypeCompilerOptions, ZodSchemaResult, SchemaKind, SchemaScope } from './types';
+import {
+  generateZodSchema,
+  generateClassValidators,
+  generateFunctionParamsValidator,
+  generateReturnValueValidator,
+  getMethodValidatorName,
+  getValidatedParameters,
+  isComputedGenericDeclaration
+} from './type-processor';
+import {
+  shouldProcessFile,
+  getTypeSkipReason,
+  isExported,
+  getSchemaName,
+  getSchemaTags,
+  isValidIdentifier,
+  getDeclaredValueNames,
+  getLoadTimeCodeIndex,
+  getRelativeModuleSpecifier,
+  groupByDependencies
+} from './utils';
 import { getWorkerPool } from './parallel';
 import { logger } from './logger';
 
+/**
+ * A declaration schemas are generated for
+ */
+type SchemaDeclaration =
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration
+  | ts.ClassDeclaration;
+
+/**
+ * A schema generated for a declaration, before it is emitted
+ */
+interface GeneratedSchema {
+  declaration: ts.Declaration;
+  type: ts.Type;
+  zodVarName: string;
+  result: ZodSchemaResult;
+}
+
+/**
+ * The validators a function or method checks its arguments and return values against
+ */
+interface FunctionValidation {
+  functionName: string;
+  arguments?: { validatorName: string; parameterNames: string[] };
+  returnValue?: { validatorName: string; awaited: boolean };
+}
+
+/**
+ * Module-private functions generated to run validators and throw a structured error
+ */
+const VALIDATE_ARGUMENTS_HELPER = '__validateArguments';
+const VALIDATE_RETURN_VALUE_HELPER = '__validateReturnValue';
+
 /**
  * Create a transformer for generating Zod schemas
  */
 export function createZodTransformer(program: ts.Program, options: TypeCompilerOptions): any {
   const typeChecker = program.getTypeChecker();
+  let exportedSchemaNames: Map<ts.Symbol, string> | undefined;
+  let moduleCycles: Map<string, Set<string>> | undefined;
+  const rootDir = getProjectRoot(program);
+  const { exactOptionalPropertyTypes } = program.getCompilerOptions();
   
   return (context: ts.TransformationContext) => {
     return (sourceFile: ts.SourceFile): ts.SourceFile => {
       // Skip declaration files, node_modules, test files, etc.
-      if (!shouldProcessFile(sourceFile.fileName, options.excludePatterns || [])) {
+      if (!shouldProcessFile(sourceFile.fileName, options.excludePatterns, options.includePatterns, rootDir)) {
         logger.debug(`Skipping file: ${sourceFile.fileName}`);
         return sourceFile;
       }
@@ -28,7 +86,7 @@ export function createZodTransformer(program: ts.Program, options: TypeCompilerO
       }
 
       // First pass: collect all type nodes to process
-      const typeNodes: Array<{ declaration: ts.Declaration; exportedName: string }> = [];
+      const typeNodes: SchemaDeclaration[] = [];
       
       const visitor = (node: ts.Node): ts.Node => {
         // Only process type declarations
@@ -42,22 +100,18 @@ export function createZodTransformer(program: ts.Program, options: TypeCompilerO
           if (!node.name) return node;
           
           const typeName = node.name.text;
-          const shouldProcess = shouldProcessType(node, options.excludedTypes || []);
+          const skipReason = getDeclarationSkipReason(node, typeChecker, options);
           
           // Skip types that shouldn't be processed
-          if (!shouldProcess) {
-            logger.trace(`Skipping type: ${typeName}`);
+          if (skipReason) {
+            logger.debug(`Skipping type ${typeName}: ${skipReason}`);
             return node;
           }
           
-          // Only export types that were also exported in the source
-          const isTypeExported = isExported(node);
-          const exportedName = isTypeExported ? typeName : `_${typeName}`;
-          
-          logger.debug(`Found type to process: ${typeName}${isTypeExported ? ' (exported)' : ''}`);
+          logger.debug(`Found type to process: ${typeName}${isExported(node) ? ' (exported)' : ''}`);
           
           // Add to the list of types to process
-          typeNodes.push({ declaration: node, exportedName });
+          typeNodes.push(node);
         }
         
         return ts.visitEachChild(node, visitor, context);
@@ -66,65 +120,62 @@ export function createZodTransformer(program: ts.Program, options: TypeCompilerO
       // Run the visitor to collect type nodes
       const visitedSourceFile = ts.visitNode(sourceFile, visitor) as ts.SourceFile;
       
+      // Map each collected type to its schema variable so other schemas can reference it.
+      // Exported types of other files are included, and their schemas are imported,
+      // unless the name is already taken in this file.
+      if (!exportedSchemaNames) {
+        exportedSchemaNames = collectExportedSchemaNames(program, typeChecker, options);
+      }
+      
+      // Files in an import cycle with this one may not have run yet when it loads,
+      // so schemas imported from them are referenced lazily
+      if (!moduleCycles) {
+        moduleCycles = collectModuleCycles(program, typeChecker);
+      }
+      const cyclicFiles = moduleCycles.get(sourceFile.fileName);
+      const declaredNames = getDeclaredValueNames(sourceFile);
+      const localSchemaNames = assignSchemaNames(typeNodes, declaredNames, options, message => logger.warn(message));
+      
+      const schemaNames = new Map<ts.Symbol, string>();
+      const schemaImports = new Map<string, Set<string>>();
+      const usedNames = new Set(localSchemaNames.values());
+      for (const [symbol, zodVarName] of exportedSchemaNames) {
+        if (!declaredNames.has(zodVarName) && !usedNames.has(zodVarName)) {
+          schemaNames.set(symbol, zodVarName);
+          usedNames.add(zodVarName);
+        }
+      }
+      for (const [declaration, zodVarName] of localSchemaNames) {
+        const symbol = typeChecker.getSymbolAtLocation(declaration.name!);
+        if (symbol) {
+          schemaNames.set(symbol, zodVarName);
+        }
+      }
+      
       // Second pass: generate Zod schemas for each type
       logger.debug(`Processing ${typeNodes.length} types in ${sourceFile.fileName}`);
       const startTime = Date.now();
       
-      for (const { declaration, exportedName } of typeNodes) {
+      const generatedSchemas: GeneratedSchema[] = [];
+      
+      for (const [declaration, zodVarName] of localSchemaNames) {
         try {
           // Get the full type symbol and name
           const type = typeChecker.getTypeAtLocation(declaration);
           if (!type) {
-            logger.warn(`Could not get type for ${exportedName}`);
+            logger.warn(`Could not get type for ${zodVarName}`);
             continue;
           }
           
-          // Check if we should use worker pool
-          const zodSchema = typeToZodSchema(type, typeChecker, program, options);
+          const result = generateZodSchema(type, typeChecker, program, options, { schemaNames, declaration, cyclicFiles });
           
-          if (!zodSchema) {
-            logger.warn(`Could not generate schema for ${exportedName}`);
+          if (!result.schema) {
+            logger.warn(`Could not generate schema for ${zodVarName}`);
             continue;
           }
           
-          logger.trace(`Generated schema for ${exportedName}`);
-          
-          // Create the export statement for the Zod schema
-          const factory = context.factory;
-          
-          const zodVarName = `${exportedName}Schema`;
-          
-          // Handle export modifiers for different declaration types
-          let exportModifiers: ts.Modifier[] | undefined = undefined;
-          
-          if (ts.isInterfaceDeclaration(declaration) || 
-              ts.isTypeAliasDeclaration(declaration) ||
-              ts.isClassDeclaration(declaration) ||
-              ts.isEnumDeclaration(declaration)) {
-            
-            if (declaration.modifiers && declaration.modifiers.some(
-              mod => mod.kind === ts.SyntaxKind.ExportKeyword
-            )) {
-              exportModifiers = [factory.createModifier(ts.SyntaxKind.ExportKeyword)];
-            }
-          }
-          
-          const zodDeclaration = factory.createVariableStatement(
-            exportModifiers,
-            factory.createVariableDeclarationList(
-              [
-                factory.createVariableDeclaration(
-                  zodVarName,
-                  undefined,
-                  undefined,
-                  factory.createIdentifier(zodSchema)
-                ),
-              ],
-              ts.NodeFlags.Const
-            )
-          );
-          
-          zodDeclarations.push(zodDeclaration);
+          logger.trace(`Generated schema for ${zodVarName}`);
+          generatedSchemas.push({ declaration, type, zodVarName, result });
           
           // Update metrics
           logger.incrementMetric('typesProcessed');
@@ -135,6 +186,239 @@ export function createZodTransformer(program: ts.Program, options: TypeCompilerO
         }
       }
       
+      // Declare schemas after the schemas they reference. Schemas that reference
+      // each other in a cycle are regenerated to reference each other lazily.
+      const schemasByName = new Map(generatedSchemas.map(schema => [schema.zodVarName, schema]));
+      const schemaGroups = groupByDependencies(generatedSchemas, schema =>
+        Array.from(schema.result.dependencies).flatMap(name => schemasByName.get(name) || [])
+      );
+      
+      for (const group of schemaGroups) {
+        const isCycle = group.length > 1 || group[0].result.dependencies.has(group[0].zodVarName);
+        if (!isCycle) {
+          continue;
+        }
+        
+        const cyclicSchemas = new Set(group.map(schema => schema.zodVarName));
+        logger.debug(`Referencing schemas in a cycle lazily: ${Array.from(cyclicSchemas).join(', ')}`);
+        
+        for (const schema of group) {
+          schema.result = generateZodSchema(schema.type, typeChecker, program, options, {
+            schemaNames,
+            declaration: schema.declaration,
+            cyclicSchemas,
+            cyclicFiles
+          });
+        }
+      }
+      
+      const factory = context.factory;
+      
+      for (const { declaration, zodVarName, result } of schemaGroups.flat()) {
+        const { schema: zodSchema, lazyReferences, importedSchemas, typeParameters } = result;
+        
+        // A schema in a reference cycle needs an explicit type, otherwise its inferred
+        // type would depend on its own initializer. Generic factories carry it as
+        // their return type instead.
+        const hasLazyReferences = lazyReferences.size > 0;
+        const zodVarType = hasLazyReferences && !typeParameters
+          ? createZodTypeAnnotation(context, declaration)
+          : undefined;
+        
+        // With exactOptionalPropertyTypes, the output of .optional() includes undefined
+        // where the type only lets the key be missing, which presence checks enforce
+        const castsOutput = !!exactOptionalPropertyTypes && !!zodVarType &&
+          ts.isTypeReferenceNode(zodVarType) && !!zodVarType.typeArguments;
+        
+        const zodInitializer = typeParameters
+          ? createSchemaFactory(context, zodSchema, typeParameters, hasLazyReferences)
+          : castsOutput
+            ? factory.createAsExpression(factory.createIdentifier(zodSchema), createZodTypeAnnotation(context, declaration))
+            : factory.createIdentifier(zodSchema);
+        
+        // Only export schemas of types that were also exported in the source
+        const exportModifiers = isExported(declaration)
+          ? [factory.createModifier(ts.SyntaxKind.ExportKeyword)]
+          : undefined;
+        
+        const zodDeclaration = factory.createVariableStatement(
+          exportModifiers,
+          factory.createVariableDeclarationList(
+            [
+              factory.createVariableDeclaration(
+                zodVarName,
+                undefined,
+                zodVarType,
+                zodInitializer
+              ),
+            ],
+            ts.NodeFlags.Const
+          )
+        );
+        
+        zodDeclarations.push(zodDeclaration);
+        
+        for (const [schemaName, fileName] of importedSchemas) {
+          const names = schemaImports.get(fileName) || new Set<string>();
+          schemaImports.set(fileName, names.add(schemaName));
+        }
+      }
+      
+      // Emit validators for class constructors, methods and functions after all type
+      // schemas, so they can reference any schema generated in this file or imported
+      const generatedNames = new Set(generatedSchemas.map(({ zodVarName }) => zodVarName));
+      const localNames = new Set(localSchemaNames.values());
+      const validatorScope: SchemaScope = {
+        schemaNames: new Map(Array.from(schemaNames).filter(([, zodVarName]) =>
+          generatedNames.has(zodVarName) || !localNames.has(zodVarName)
+        )),
+        importedSchemas: new Map(),
+        cyclicFiles
+      };
+      const usedValueNames = new Set([...declaredNames, ...usedNames]);
+      const validations = new Map<ts.Node, FunctionValidation>();
+      
+      // Declare a validator unless its name is taken, and report whether it was
+      const declareValidator = (validatorName: string, validator: ts.Statement | string, exported: boolean) => {
+        if (usedValueNames.has(validatorName)) {
+          logger.warn(`Skipping validator ${validatorName}: the name is already used in ${sourceFile.fileName}`);
+          return false;
+        }
+        
+        usedValueNames.add(validatorName);
+        zodDeclarations.push(typeof validator !== 'string' ? validator : context.factory.createVariableStatement(
+          exported ? [context.factory.createModifier(ts.SyntaxKind.ExportKeyword)] : undefined,
+          context.factory.createVariableDeclarationList(
+            [context.factory.createVariableDeclaration(validatorName, undefined, undefined, context.factory.createIdentifier(validator))],
+            ts.NodeFlags.Const
+          )
+        ));
+        return true;
+      };
+      
+      const addValidation = (node: ts.Node, functionName: string, validation: Partial<FunctionValidation>) => {
+        validations.set(node, { ...validations.get(node), functionName, ...validation });
+      };
+      
+      for (const declaration of typeNodes) {
+        if (!ts.isClassDeclaration(declaration)) {
+          continue;
+        }
+        
+        const className = declaration.name!.text;
+        const getFunctionName = (member: ts.MethodDeclaration | ts.ConstructorDeclaration) =>
+          `${className}.${ts.isConstructorDeclaration(member) ? 'constructor' : (member.name as ts.Identifier).text}`;
+        
+        // Constructors and methods whose arguments are validated, by validator name
+        const validatedMembers = new Map<string, ts.MethodDeclaration | ts.ConstructorDeclaration>();
+        for (const member of declaration.members) {
+          if (
+            (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member)) &&
+            member.body &&
+            shouldValidate(member, !!options.validateParameters)
+          ) {
+            const validatorName = getMethodValidatorName(className, member, options.zodSchemaPrefix, options);
+            if (validatorName) {
+              validatedMembers.set(validatorName, member);
+            }
+          }
+        }
+        
+        const validators = options.validateClassMethods || validatedMembers.size > 0
+          ? generateClassValidators(declaration, typeChecker, options.zodSchemaPrefix, options, validatorScope, program)
+          : [];
+        
+        for (const validator of validators as ts.VariableStatement[]) {
+          const validatorName = (validator.declarationList.declarations[0].name as ts.Identifier).text;
+          const member = validatedMembers.get(validatorName);
+          if ((options.validateClassMethods || member) && declareValidator(validatorName, validator, true) && member) {
+            addValidation(member, getFunctionName(member), {
+              arguments: {
+                validatorName,
+                parameterNames: getValidatedParameters(member).map(param => param.name.text)
+              }
+            });
+          }
+        }
+        
+        for (const member of declaration.members) {
+          if (
+            !ts.isMethodDeclaration(member) ||
+            !member.body ||
+            !shouldValidate(member, !!options.validateReturnValues)
+          ) {
+            continue;
+          }
+          
+          const validatorName = getMethodValidatorName(className, member, options.zodSchemaPrefix, options, 'Return');
+          const validator = validatorName &&
+            generateReturnValueValidator(member, typeChecker, options, validatorScope, program);
+          if (validator && declareValidator(validatorName, validator.schema, true)) {
+            addValidation(member, getFunctionName(member), {
+              returnValue: { validatorName, awaited: validator.awaited }
+            });
+          }
+        }
+      }
+      
+      for (const statement of sourceFile.statements) {
+        if (!ts.isFunctionDeclaration(statement) || !statement.name || !statement.body) {
+          continue;
+        }
+        
+        const functionName = statement.name.text;
+        const exported = isExported(statement);
+        const getValidatorName = (validates: 'Params' | 'Return') =>
+          getDeclarationSchemaName(`${functionName}${validates}`, `function${validates}`, exported, options);
+        
+        if (getValidatedParameters(statement).length > 0 && shouldValidate(statement, !!options.validateParameters)) {
+          const validatorName = getValidatorName('Params');
+          const schema = generateFunctionParamsValidator(statement, typeChecker, options, validatorScope, program);
+          if (declareValidator(validatorName, schema, exported)) {
+            addValidation(statement, functionName, {
+              arguments: {
+                validatorName,
+                parameterNames: getValidatedParameters(statement).map(param => param.name.text)
+              }
+            });
+          }
+        }
+        
+        const returnValidator = shouldValidate(statement, !!options.validateReturnValues)
+          ? generateReturnValueValidator(statement, typeChecker, options, validatorScope, program)
+          : undefined;
+        if (returnValidator && declareValidator(getValidatorName('Return'), returnValidator.schema, exported)) {
+          addValidation(statement, functionName, {
+            returnValue: { validatorName: getValidatorName('Return'), awaited: returnValidator.awaited }
+          });
+        }
+      }
+      
+      for (const [schemaName, fileName] of validatorScope.importedSchemas!) {
+        const names = schemaImports.get(fileName) || new Set<string>();
+        schemaImports.set(fileName, names.add(schemaName));
+      }
+      
+      // Check the arguments at the start of each validated body, and the values it returns
+      let transformedSourceFile = visitedSourceFile;
+      if (validations.size > 0) {
+        const usedValidations = Array.from(validations.values());
+        const helpers = {
+          arguments: usedValidations.some(validation => !!validation.arguments),
+          returnValue: usedValidations.some(validation => !!validation.returnValue)
+        };
+        const declaredHelper = [
+          ...(helpers.arguments ? [VALIDATE_ARGUMENTS_HELPER] : []),
+          ...(helpers.returnValue ? [VALIDATE_RETURN_VALUE_HELPER] : [])
+        ].find(helper => usedValueNames.has(helper));
+        if (declaredHelper) {
+          logger.warn(`Skipping runtime validation: ${declaredHelper} is already declared in ${sourceFile.fileName}`);
+        } else {
+          zodDeclarations.push(...createValidationHelpers(context, helpers));
+          transformedSourceFile = injectValidation(context, visitedSourceFile, validations);
+        }
+      }
+      
       // Log processing time
       const duration = Date.now() - startTime;
       logger.debug(`Generated ${zodDeclarations.length} schemas in ${duration}ms`);
@@ -145,12 +429,16 @@ export function createZodTransformer(program: ts.Program, options: TypeCompilerO
         return sourceFile;
       }
       
-      // Add Zod import if needed
+      // Add Zod import if needed, and declare the schemas before any code that runs
+      // while the module loads, which may call validated functions
       const skipZodImport = !!options.skipZodImport;
+      const loadTimeCodeIndex = getLoadTimeCodeIndex(sourceFile);
       const updatedStatements = [
         ...(skipZodImport ? [] : [createZodImport(context)]),
-        ...visitedSourceFile.statements,
+        ...createSchemaImports(context, sourceFile, schemaImports),
+        ...transformedSourceFile.statements.slice(0, loadTimeCodeIndex),
         ...zodDeclarations,
+        ...transformedSourceFile.statements.slice(loadTimeCodeIndex),
       ];
       
       logger.incrementMetric('filesProcessed');
@@ -168,6 +456,521 @@ export function createZodTransformer(program: ts.Program, options: TypeCompilerO
   };
 }
 
+/**
+ * Get the schema variable name of a declaration. With the default naming, schemas
+ * of declarations that are not exported are module-private and get a leading
+ * underscore; a `schemaNaming` template or function names them as given.
+ */
+function getDeclarationSchemaName(
+  typeName: string,
+  kind: SchemaKind,
+  exported: boolean,
+  options: TypeCompilerOptions
+): string {
+  const schemaName = getSchemaName(typeName, kind, options);
+  return exported || options.schemaNaming !== undefined ? schemaName : `_${schemaName}`;
+}
+
+/**
+ * Name the schema variables of the type declarations in a file. A `@zod-name` tag
+ * names the schema as given, otherwise the naming options do. A declaration whose
+ * schema name is already declared in the file, or assigned to an earlier
+ * declaration, is reported and gets no schema.
+ */
+function assignSchemaNames(
+  declarations: SchemaDeclaration[],
+  declaredNames: Set<string>,
+  options: TypeCompilerOptions,
+  report?: (message: string) => void
+): Map<SchemaDeclaration, string> {
+  const schemaNames = new Map<SchemaDeclaration, string>();
+  const usedNames = new Set(declaredNames);
+  
+  for (const declaration of declarations) {
+    const typeName = declaration.name!.text;
+    const isGeneric = !ts.isEnumDeclaration(declaration) &&
+      !!declaration.typeParameters &&
+      declaration.typeParameters.length > 0;
+    let zodVarName = getDeclarationSchemaName(
+      typeName,
+      isGeneric ? 'genericType' : 'type',
+      isExported(declaration),
+      options
+    );
+    
+    const { schemaName: taggedName } = getSchemaTags(declaration);
+    if (taggedName !== undefined && isValidIdentifier(taggedName)) {
+      zodVarName = taggedName;
+    } else if (taggedName !== undefined) {
+      report?.(`Ignoring @zod-name "${taggedName}" on ${typeName}: it is not a valid identifier`);
+    }
+    
+    if (usedNames.has(zodVarName)) {
+      report?.(
+        `Skipping schema for ${typeName}: ${zodVarName} is already declared in ${declaration.getSourceFile().fileName}`
+      );
+      continue;
+    }
+    
+    usedNames.add(zodVarName);
+    schemaNames.set(declaration, zodVarName);
+  }
+  
+  return schemaNames;
+}
+
+/**
+ * Check whether calls to a function, method or constructor are validated, with
+ * `enabled` being the option for the kind of validation. A `@validate` or
+ * `@noValidate` JSDoc tag on the declaration decides, then one on its class,
+ * except that private methods are only validated with their own tag.
+ */
+function shouldValidate(
+  node: ts.FunctionDeclaration | ts.MethodDeclaration | ts.ConstructorDeclaration,
+  enabled: boolean
+): boolean {
+  const getValidationTag = (declaration: ts.Node): boolean | undefined => {
+    const tag = ts.getJSDocTags(declaration).find(({ tagName }) =>
+      tagName.text === 'validate' || tagName.text === 'noValidate'
+    );
+    return tag && tag.tagName.text === 'validate';
+  };
+  
+  const ownTag = getValidationTag(node);
+  if (ownTag !== undefined) {
+    return ownTag;
+  }
+  
+  if (!ts.isFunctionDeclaration(node)) {
+    if (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Private) {
+      return false;
+    }
+    
+    const classTag = getValidationTag(node.parent);
+    if (classTag !== undefined) {
+      return classTag;
+    }
+  }
+  
+  return enabled;
+}
+
+/**
+ * Rewrite the bodies of validated functions to check their arguments first, after
+ * any prologue directives and a leading `super(...)` call, and to pass the values
+ * they return through their return value validator
+ */
+function injectValidation(
+  context: ts.TransformationContext,
+  sourceFile: ts.SourceFile,
+  validations: Map<ts.Node, FunctionValidation>
+): ts.SourceFile {
+  const factory = context.factory;
+  
+  const visitor = (node: ts.Node): ts.Node => {
+    const validation = ts.isBlock(node) && node.parent ? validations.get(node.parent) : undefined;
+    if (!validation || !ts.isBlock(node)) {
+      return ts.visitEachChild(node, visitor, context);
+    }
+    
+    const { functionName, arguments: argumentValidator, returnValue } = validation;
+    
+    // Return statements of nested functions and classes belong to those
+    const returnVisitor = (child: ts.Node): ts.Node => {
+      if (ts.isFunctionLike(child) || ts.isClassLike(child)) {
+        return visitor(child);
+      }
+      if (returnValue && ts.isReturnStatement(child) && child.expression) {
+        return factory.updateReturnStatement(child, factory.createCallExpression(
+          factory.createIdentifier(VALIDATE_RETURN_VALUE_HELPER),
+          undefined,
+          [
+            factory.createIdentifier(returnValue.validatorName),
+            ts.visitNode(child.expression, returnVisitor) as ts.Expression,
+            factory.createStringLiteral(functionName),
+            returnValue.awaited ? factory.createTrue() : factory.createFalse()
+          ]
+        ));
+      }
+      return ts.visitEachChild(child, returnVisitor, context);
+    };
+    
+    const block = ts.visitEachChild(node, returnVisitor, context);
+    if (!argumentValidator) {
+      return block;
+    }
+    
+    const statements = [...block.statements];
+    let index = 0;
+    while (
+      index < statements.length &&
+      ts.isExpressionStatement(statements[index]) &&
+      ts.isStringLiteral((statements[index] as ts.ExpressionStatement).expression)
+    ) {
+      index++;
+    }
+    const statement = statements[index];
+    if (
+      statement &&
+      ts.isExpressionStatement(statement) &&
+      ts.isCallExpression(statement.expression) &&
+      statement.expression.expression.kind === ts.SyntaxKind.SuperKeyword
+    ) {
+      index++;
+    }
+    
+    statements.splice(index, 0, factory.createExpressionStatement(
+      factory.createCallExpression(
+        factory.createIdentifier(VALIDATE_ARGUMENTS_HELPER),
+        undefined,
+        [
+          factory.createIdentifier(argumentValidator.validatorName),
+          factory.createObjectLiteralExpression(
+            argumentValidator.parameterNames.map(name => factory.createShorthandPropertyAssignment(name))
+          ),
+          factory.createStringLiteral(functionName)
+        ]
+      )
+    ));
+    
+    return factory.updateBlock(block, statements);
+  };
+  
+  return ts.visitNode(sourceFile, visitor) as ts.SourceFile;
+}
+
+/**
+ * Create the functions injected calls validate with, for the kinds of validation
+ * the module uses. `__validateArguments` throws a `TypeError` named
+ * `ArgumentValidationError` that carries the function name, the first invalid
+ * parameter and the Zod issues. `__validateReturnValue` returns the value, or a
+ * promise of it when the function returns a promise, and throws a
+ * `ReturnValueValidationError` with the function name and the Zod issues.
+ */
+function createValidationHelpers(
+  context: ts.TransformationContext,
+  helpers: { arguments: boolean; returnValue: boolean }
+): ts.Statement[] {
+  const factory = context.factory;
+  const createParameter = (name: string, type: ts.TypeNode) =>
+    factory.createParameterDeclaration(undefined, undefined, name, undefined, type);
+  const createConst = (name: string, initializer: string) => factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [factory.createVariableDeclaration(name, undefined, undefined, factory.createIdentifier(initializer))],
+      ts.NodeFlags.Const
+    )
+  );
+  
+  // Throw the error named `errorName` if the schema rejects `value`
+  const createCheck = (value: string, errorName: string, message: string, properties: string) => [
+    createConst('result', `schema.safeParse(${value})`),
+    factory.createIfStatement(
+      factory.createIdentifier('!result.success'),
+      factory.createBlock([
+        createConst('issue', 'result.error.issues[0]'),
+        factory.createThrowStatement(factory.createIdentifier(
+          `Object.assign(new TypeError(\`${message}: \${issue.message}\`), ` +
+          `{ name: '${errorName}', functionName, ${properties}issues: result.error.issues })`
+        ))
+      ], true)
+    )
+  ];
+  
+  const schemaParameter = createParameter('schema', factory.createTypeReferenceNode(
+    factory.createQualifiedName(factory.createIdentifier('z'), 'ZodTypeAny')
+  ));
+  const functionNameParameter = createParameter('functionName', factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword));
+  
+  const validateArguments = factory.createFunctionDeclaration(
+    undefined,
+    undefined,
+    VALIDATE_ARGUMENTS_HELPER,
+    undefined,
+    [
+      schemaParameter,
+      createParameter('args', factory.createTypeReferenceNode('Record', [
+        factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+        factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+      ])),
+      functionNameParameter
+    ],
+    factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword),
+    factory.createBlock(createCheck(
+      'args',
+      'ArgumentValidationError',
+      'Invalid argument ${issue.path.join(\'.\')} of ${functionName}',
+      'parameterName: issue.path[0], '
+    ), true)
+  );
+  
+  const validateReturnValue = factory.createFunctionDeclaration(
+    undefined,
+    undefined,
+    VALIDATE_RETURN_VALUE_HELPER,
+    undefined,
+    [
+      schemaParameter,
+      createParameter('value', factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword)),
+      functionNameParameter,
+      createParameter('awaited', factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword))
+    ],
+    factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
+    factory.createBlock([
+      factory.createIfStatement(
+        factory.createIdentifier('awaited && value && typeof value.then === \'function\''),
+        factory.createBlock([
+          factory.createReturnStatement(factory.createIdentifier(
+            `Promise.resolve(value).then(resolved => ${VALIDATE_RETURN_VALUE_HELPER}(schema, resolved, functionName, false))`
+          ))
+        ], true)
+      ),
+      ...createCheck('value', 'ReturnValueValidationError', 'Invalid return value of ${functionName}', ''),
+      factory.createReturnStatement(factory.createIdentifier('value'))
+    ], true)
+  );
+  
+  return [
+    ...(helpers.arguments ? [validateArguments] : []),
+    ...(helpers.returnValue ? [validateReturnValue] : [])
+  ];
+}
+
+/**
+ * Create a `z.ZodType<TypeName, z.ZodTypeDef, unknown>` annotation for the schema
+ * of a declaration. The input type is left open, since defaults and presence
+ * checks make it differ from the declared type. A type that cannot be named where
+ * the schema is declared, inside a function or a namespace that does not export
+ * it, is annotated `z.ZodTypeAny`.
+ */
+function createZodTypeAnnotation(
+  context: ts.TransformationContext,
+  declaration: ts.Declaration
+): ts.TypeNode {
+  const factory = context.factory;
+  const typeName = getTopLevelTypeName(context, declaration);
+  if (!typeName) {
+    return factory.createTypeReferenceNode(factory.createQualifiedName(factory.createIdentifier('z'), 'ZodTypeAny'));
+  }
+  
+  return factory.createTypeReferenceNode(
+    factory.createQualifiedName(factory.createIdentifier('z'), 'ZodType'),
+    [
+      factory.createTypeReferenceNode(typeName),
+      factory.createTypeReferenceNode(factory.createQualifiedName(factory.createIdentifier('z'), 'ZodTypeDef')),
+      factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+    ]
+  );
+}
+
+/**
+ * Get the name a declaration is referred to by at the top level of its file,
+ * qualified with the namespaces that export it, or undefined if it has none
+ */
+function getTopLevelTypeName(
+  context: ts.TransformationContext,
+  declaration: ts.Declaration
+): ts.EntityName | undefined {
+  const name = ts.getNameOfDeclaration(declaration);
+  if (!name || !ts.isIdentifier(name)) {
+    return undefined;
+  }
+  
+  const names = [name.text];
+  let node: ts.Node = declaration;
+  while (!ts.isSourceFile(node.parent)) {
+    // `namespace A.B` nests B in A directly; other namespace members need to be exported
+    const namespace = ts.isModuleBlock(node.parent) && (ts.getCombinedModifierFlags(node as ts.Declaration) & ts.ModifierFlags.Export)
+      ? node.parent.parent
+      : node.parent;
+    if (!ts.isModuleDeclaration(namespace) || !ts.isIdentifier(namespace.name)) {
+      return undefined;
+    }
+    
+    names.unshift(namespace.name.text);
+    node = namespace;
+  }
+  
+  const factory = context.factory;
+  return names.slice(1).reduce<ts.EntityName>(
+    (qualifier, part) => factory.createQualifiedName(qualifier, part),
+    factory.createIdentifier(names[0])
+  );
+}
+
+/**
+ * Create the factory function for a generic declaration, taking one schema per
+ * type parameter, e.g. `(tSchema: z.ZodTypeAny) => z.object({ value: tSchema })`
+ */
+function createSchemaFactory(
+  context: ts.TransformationContext,
+  schema: string,
+  typeParameters: NonNullable<ZodSchemaResult['typeParameters']>,
+  hasLazyReferences: boolean
+): ts.ArrowFunction {
+  const factory = context.factory;
+  const createZodTypeAny = () => factory.createTypeReferenceNode(
+    factory.createQualifiedName(factory.createIdentifier('z'), 'ZodTypeAny')
+  );
+  
+  const parameters = typeParameters.map(({ name, defaultSchema }) =>
+    factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      name,
+      undefined,
+      createZodTypeAny(),
+      defaultSchema ? factory.createIdentifier(defaultSchema) : undefined
+    )
+  );
+  
+  return factory.createArrowFunction(
+    undefined,
+    undefined,
+    parameters,
+    hasLazyReferences ? createZodTypeAny() : undefined,
+    factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+    factory.createIdentifier(schema)
+  );
+}
+
+/**
+ * Get the directory file patterns are relative to: the directory of the tsconfig
+ * the program was created from, or the current directory
+ */
+function getProjectRoot(program: ts.Program): string {
+  const { configFilePath } = program.getCompilerOptions();
+  return typeof configFilePath === 'string' ? path.dirname(configFilePath) : program.getCurrentDirectory();
+}
+
+/**
+ * Get the reason why no schema is generated for a declaration, or undefined if
+ * one is. Besides the selection options, some declarations cannot have a schema:
+ * the object of an enum inside a function or namespace is not in scope where its
+ * schema would be declared, and a schema factory cannot compute the shape of a
+ * mapped or conditional type from the schemas of its type arguments.
+ */
+function getDeclarationSkipReason(
+  declaration: SchemaDeclaration,
+  typeChecker: ts.TypeChecker,
+  options: TypeCompilerOptions
+): string | undefined {
+  if (ts.isEnumDeclaration(declaration) && !ts.isSourceFile(declaration.parent)) {
+    return 'it is not declared at the top level of the file';
+  }
+  
+  const symbol = ts.isTypeAliasDeclaration(declaration) && declaration.typeParameters
+    ? typeChecker.getSymbolAtLocation(declaration.name)
+    : undefined;
+  if (symbol && isComputedGenericDeclaration(symbol, typeChecker)) {
+    return 'its shape is computed from its type parameters';
+  }
+  
+  return getTypeSkipReason(declaration, options);
+}
+
+/**
+ * Map the exported types of every processed file in the program to the schema
+ * variables generated for them, so schemas in other files can import them
+ */
+function collectExportedSchemaNames(
+  program: ts.Program,
+  typeChecker: ts.TypeChecker,
+  options: TypeCompilerOptions
+): Map<ts.Symbol, string> {
+  const schemaNames = new Map<ts.Symbol, string>();
+  
+  for (const sourceFile of program.getSourceFiles()) {
+    if (
+      sourceFile.isDeclarationFile ||
+      !shouldProcessFile(sourceFile.fileName, options.excludePatterns, options.includePatterns, getProjectRoot(program))
+    ) {
+      continue;
+    }
+    
+    const declarations = sourceFile.statements.filter((statement): statement is SchemaDeclaration =>
+      (ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      !!statement.name &&
+      !getDeclarationSkipReason(statement, typeChecker, options)
+    );
+    
+    const fileSchemaNames = assignSchemaNames(declarations, getDeclaredValueNames(sourceFile), options);
+    for (const [declaration, zodVarName] of fileSchemaNames) {
+      const symbol = isExported(declaration) && typeChecker.getSymbolAtLocation(declaration.name!);
+      if (symbol) {
+        schemaNames.set(symbol, zodVarName);
+      }
+    }
+  }
+  
+  return schemaNames;
+}
+
+/**
+ * Map each file in an import cycle to the files in that cycle, following the
+ * import and export declarations between the source files of the program
+ */
+function collectModuleCycles(program: ts.Program, typeChecker: ts.TypeChecker): Map<string, Set<string>> {
+  const sourceFiles = program.getSourceFiles().filter(sourceFile => !sourceFile.isDeclarationFile);
+  
+  const getImportedFiles = (sourceFile: ts.SourceFile): ts.SourceFile[] =>
+    sourceFile.statements.flatMap(statement => {
+      const moduleSpecifier = (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement))
+        ? statement.moduleSpecifier
+        : undefined;
+      const moduleDeclaration = moduleSpecifier && typeChecker.getSymbolAtLocation(moduleSpecifier)?.valueDeclaration;
+      return moduleDeclaration && ts.isSourceFile(moduleDeclaration) ? [moduleDeclaration] : [];
+    });
+  
+  const moduleCycles = new Map<string, Set<string>>();
+  for (const group of groupByDependencies(sourceFiles, getImportedFiles)) {
+    if (group.length > 1) {
+      const fileNames = new Set(group.map(sourceFile => sourceFile.fileName));
+      for (const fileName of fileNames) {
+        moduleCycles.set(fileName, fileNames);
+      }
+    }
+  }
+  
+  return moduleCycles;
+}
+
+/**
+ * Create the imports of schemas generated in other files, keyed by declaring file name.
+ * Type-only imports, re-exports and path aliases in the source do not matter here:
+ * the schema is always imported from the file that declares the type.
+ */
+function createSchemaImports(
+  context: ts.TransformationContext,
+  sourceFile: ts.SourceFile,
+  schemaImports: Map<string, Set<string>>
+): ts.Statement[] {
+  const factory = context.factory;
+  
+  // ECMAScript modules resolved the Node way need the extension of the emitted file
+  const includeExtension = sourceFile.impliedNodeFormat === ts.ModuleKind.ESNext;
+  
+  return Array.from(schemaImports, ([fileName, schemaNames]) =>
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        false,
+        undefined,
+        factory.createNamedImports(
+          Array.from(schemaNames, schemaName =>
+            factory.createImportSpecifier(false, undefined, factory.createIdentifier(schemaName))
+          )
+        )
+      ),
+      factory.createStringLiteral(getRelativeModuleSpecifier(sourceFile.fileName, fileName, includeExtension)),
+      undefined
+    )
+  );
+}
+
 function createZodImport(context: ts.TransformationContext): ts.Statement {
   const factory = context.factory;
   return factory.createImportDeclaration(
@@ -1,7 +1,7 @@
 import ts from 'typescript';
 import { globalTypeCache } from './cache';
-import { TypeCompilerOptions } from './types';
-import { generateStableTypeId } from './utils';
+import { TypeCompilerOptions, ZodSchemaResult, SchemaScope } from './types';
+import { generateStableTypeId, getSchemaName, getLoadTimeCodeIndex } from './utils';
 import { getWorkerPool } from './parallel';
 import { logger } from './logger';
 
@@ -126,103 +126,1668 @@ function applySpecialFieldValidation(
 }
 
 /**
- * Convert a TypeScript type to a Zod schema
+ * Zod schemas for well-known global classes, keyed by global symbol name.
+ * Each entry receives the already converted type arguments.
+ */
+const BUILTIN_TYPE_SCHEMAS: Record<string, (typeArguments: string[]) => string> = {
+  Date: () => 'z.date()',
+  Map: ([key = 'z.unknown()', value = 'z.unknown()']) => `z.map(${key}, ${value})`,
+  ReadonlyMap: ([key = 'z.unknown()', value = 'z.unknown()']) => `z.map(${key}, ${value})`,
+  Set: ([value = 'z.unknown()']) => `z.set(${value})`,
+  ReadonlySet: ([value = 'z.unknown()']) => `z.set(${value})`,
+  Promise: ([value = 'z.unknown()']) => `z.promise(${value})`,
+  RegExp: () => 'z.instanceof(RegExp)',
+  URL: () => 'z.instanceof(URL)',
+  Error: () => 'z.instanceof(Error)',
+  ArrayBuffer: () => 'z.instanceof(ArrayBuffer)',
+  Int8Array: () => 'z.instanceof(Int8Array)',
+  Uint8Array: () => 'z.instanceof(Uint8Array)',
+  Uint8ClampedArray: () => 'z.instanceof(Uint8ClampedArray)',
+  Int16Array: () => 'z.instanceof(Int16Array)',
+  Uint16Array: () => 'z.instanceof(Uint16Array)',
+  Int32Array: () => 'z.instanceof(Int32Array)',
+  Uint32Array: () => 'z.instanceof(Uint32Array)',
+  Float32Array: () => 'z.instanceof(Float32Array)',
+  Float64Array: () => 'z.instanceof(Float64Array)',
+  BigInt64Array: () => 'z.instanceof(BigInt64Array)',
+  BigUint64Array: () => 'z.instanceof(BigUint64Array)'
+};
+
+/**
+ * Zod object methods equivalent to the global utility types, keyed by utility type name.
+ * Each entry receives the schema of the source type and the property keys given as
+ * the second type argument, if any.
+ */
+const UTILITY_TYPE_SCHEMAS: Record<string, (source: string, keys: string[]) => string> = {
+  Partial: source => `${source}.partial()`,
+  Required: source => `${source}.required()`,
+  Readonly: source => source,
+  Pick: (source, keys) => `${source}.pick(${formatKeyMask(keys)})`,
+  Omit: (source, keys) => `${source}.omit(${formatKeyMask(keys)})`
+};
+
+/**
+ * State shared by the recursive steps of a single schema conversion
+ */
+interface ConversionContext {
+  typeChecker: ts.TypeChecker;
+  program?: ts.Program;
+  options?: TypeCompilerOptions;
+  /**
+   * Mirrors the program's exactOptionalPropertyTypes compiler option
+   */
+  exactOptionalPropertyTypes: boolean;
+  /**
+   * Schema variables already generated for declared types, keyed by type symbol
+   */
+  schemaNames?: Map<ts.Symbol, string>;
+  /**
+   * The declaration the schema is generated for, if known
+   */
+  declaration?: ts.Declaration;
+  /**
+   * Schema variables in a reference cycle with the schema being generated
+   */
+  cyclicSchemas?: Set<string>;
+  /**
+   * Files in an import cycle with the one the schema is generated in
+   */
+  cyclicFiles?: Set<string>;
+  /**
+   * Schema factory parameters standing in for the declaration's type parameters
+   */
+  typeParameterSchemas: Map<ts.Type, string>;
+  /**
+   * Types currently being expanded, used to detect recursion
+   */
+  visiting: Set<ts.Type>;
+  /**
+   * Schema variables referenced through z.lazy because of recursion
+   */
+  lazyReferences: Set<string>;
+  /**
+   * Schema variables referenced directly, which must be initialized first
+   */
+  dependencies: Set<string>;
+  /**
+   * Schema variables of types declared in other files, keyed to the declaring file name
+   */
+  importedSchemas: Map<string, string>;
+}
+
+/**
+ * The generated schema of a named type, as referenced from another schema
+ */
+interface SchemaReference {
+  name: string;
+  expression: string;
+  /**
+   * The schema is part of a reference cycle with the schema being generated, or
+   * imported from a file in an import cycle, so its variable may not be
+   * initialized yet
+   */
+  deferred: boolean;
+}
+
+/**
+ * A type with null and undefined split off from its remaining members
+ */
+interface NullabilityInfo {
+  types: ts.Type[];
+  hasNull: boolean;
+  hasUndefined: boolean;
+}
+
+/**
+ * The pieces of a z.object schema before they are joined together
+ */
+interface ObjectSchemaParts {
+  properties: string[];
+  /**
+   * Presence checks that Zod cannot express per property, such as a required
+   * property that may be undefined
+   */
+  presenceChecks: string[];
+  /**
+   * Key and value schemas of the type's index signature, if it has one
+   */
+  indexSignature?: { key: string; value: string };
+}
+
+/**
+ * Map primitive and keyword types to their Zod counterparts.
+ * Returns undefined when the type is not a primitive.
+ */
+function primitiveTypeToZod(type: ts.Type): string | undefined {
+  const flags = type.flags || 0;
+  
+  if (flags & ts.TypeFlags.Any) return 'z.any()';
+  if (flags & ts.TypeFlags.Unknown) return 'z.unknown()';
+  if (flags & ts.TypeFlags.String) return 'z.string()';
+  if (flags & ts.TypeFlags.Number) return 'z.number()';
+  // boolean is represented as the union true | false, so check it before unions
+  if (flags & ts.TypeFlags.Boolean) return 'z.boolean()';
+  if (flags & ts.TypeFlags.BigInt) return 'z.bigint()';
+  if (flags & ts.TypeFlags.Null) return 'z.null()';
+  if (flags & ts.TypeFlags.Undefined) return 'z.undefined()';
+  if (flags & ts.TypeFlags.Void) return 'z.void()';
+  if (flags & ts.TypeFlags.Never) return 'z.never()';
+  if (flags & ts.TypeFlags.ESSymbolLike) return 'z.symbol()';
+  if (flags & ts.TypeFlags.NonPrimitive) return 'z.record(z.string(), z.unknown())';
+  
+  return undefined;
+}
+
+/**
+ * Map string, number, bigint and boolean literal types to z.literal.
+ * Returns undefined when the type is not a literal.
+ */
+function literalTypeToZod(type: ts.Type, typeChecker: ts.TypeChecker): string | undefined {
+  const flags = type.flags || 0;
+  
+  if (flags & ts.TypeFlags.StringLiteral) {
+    return `z.literal(${JSON.stringify((type as ts.StringLiteralType).value)})`;
+  }
+  
+  if (flags & ts.TypeFlags.NumberLiteral) {
+    return `z.literal(${(type as ts.NumberLiteralType).value})`;
+  }
+  
+  if (flags & ts.TypeFlags.BigIntLiteral) {
+    const { negative, base10Value } = (type as ts.BigIntLiteralType).value;
+    return `z.literal(${negative ? '-' : ''}${base10Value}n)`;
+  }
+  
+  if (flags & ts.TypeFlags.BooleanLiteral) {
+    return `z.literal(${typeChecker.typeToString(type)})`;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Escape text for use inside a regular expression literal
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Build the (unanchored) regular expression source matching a template literal span type
+ */
+function templateSpanToRegExp(type: ts.Type): string {
+  const flags = type.flags || 0;
+  
+  if (flags & ts.TypeFlags.StringLiteral) return escapeRegExp((type as ts.StringLiteralType).value);
+  if (flags & ts.TypeFlags.NumberLiteral) return escapeRegExp(String((type as ts.NumberLiteralType).value));
+  if (flags & ts.TypeFlags.Number) return '-?(?:\\d+(?:\\.\\d*)?|\\.\\d+)(?:[eE][+-]?\\d+)?';
+  if (flags & ts.TypeFlags.BigInt) return '-?\\d+';
+  if (flags & ts.TypeFlags.Boolean) return '(?:true|false)';
+  if (flags & ts.TypeFlags.Null) return 'null';
+  if (flags & ts.TypeFlags.Undefined) return 'undefined';
+  
+  if (flags & ts.TypeFlags.BooleanLiteral) {
+    return (type as ts.Type & { intrinsicName?: string }).intrinsicName === 'true' ? 'true' : 'false';
+  }
+  
+  if (flags & ts.TypeFlags.TemplateLiteral) {
+    return templateLiteralToRegExp(type as ts.TemplateLiteralType);
+  }
+  
+  if (flags & ts.TypeFlags.Union) {
+    return `(?:${(type as ts.UnionType).types.map(templateSpanToRegExp).join('|')})`;
+  }
+  
+  // string, string mappings such as Uppercase<string>, and anything else unconstrained
+  return '[\\s\\S]*';
+}
+
+/**
+ * Build the (unanchored) regular expression source for a template literal type
+ */
+function templateLiteralToRegExp(type: ts.TemplateLiteralType): string {
+  let source = escapeRegExp(type.texts[0]);
+  
+  type.types.forEach((spanType, index) => {
+    source += templateSpanToRegExp(spanType) + escapeRegExp(type.texts[index + 1]);
+  });
+  
+  return source;
+}
+
+/**
+ * Convert template literal types such as `user_${string}` to a regex-validated string.
+ * Returns undefined when the type is not a template literal.
+ */
+function templateLiteralTypeToZod(type: ts.Type): string | undefined {
+  if (!(type.flags & ts.TypeFlags.TemplateLiteral)) {
+    return undefined;
+  }
+  
+  return `z.string().regex(/^${templateLiteralToRegExp(type as ts.TemplateLiteralType)}$/)`;
+}
+
+/**
+ * Check whether the schema of an enum can validate against the enum's runtime
+ * object. Only the schema generated for the enum itself refers to the object,
+ * declared next to it at the top level of the file; other schemas reference that
+ * schema. Without generated schemas to reference, the object is assumed in scope.
+ */
+function canReferenceEnumObject(symbol: ts.Symbol, context: ConversionContext): boolean {
+  if (!context.schemaNames) {
+    return true;
+  }
+  
+  const declaration = context.declaration;
+  if (!declaration || !ts.isEnumDeclaration(declaration) || !(symbol.declarations || []).includes(declaration)) {
+    return false;
+  }
+  
+  // Ambient enums have no object in this file, and schemas are declared before
+  // enums that follow code running while the module loads
+  const sourceFile = declaration.getSourceFile();
+  const index = sourceFile.statements.indexOf(declaration);
+  const isAmbient = (ts.getModifiers(declaration) || []).some(modifier => modifier.kind === ts.SyntaxKind.DeclareKeyword);
+  return !isAmbient && index !== -1 && index < getLoadTimeCodeIndex(sourceFile);
+}
+
+/**
+ * Convert enum types. Regular enums validate against their runtime object where
+ * the schema can refer to it; const enums have none, so they are expanded into
+ * their member values, as are enums whose object is not in scope.
+ * Returns undefined when the type is not an enum.
+ */
+function enumTypeToZod(type: ts.Type, context: ConversionContext): string | undefined {
+  const { typeChecker } = context;
+  const symbol = type.symbol;
+  if (!(type.flags & ts.TypeFlags.EnumLike) || !symbol || !(symbol.flags & ts.SymbolFlags.Enum)) {
+    return undefined;
+  }
+  
+  if ((symbol.flags & ts.SymbolFlags.ConstEnum) || !canReferenceEnumObject(symbol, context)) {
+    const members = (type.flags & ts.TypeFlags.Union) ? (type as ts.UnionType).types : [type];
+    const literals = members.map(member => literalTypeToZod(member, typeChecker) || 'z.number()');
+    return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+  }
+  
+  return `z.nativeEnum(${typeChecker.symbolToString(symbol)})`;
+}
+
+/**
+ * Find the enum whose members are exactly the given types. Unions such as
+ * `Status | undefined` are flattened into the enum's members by the checker.
+ */
+function getCompleteEnumType(types: ts.Type[], typeChecker: ts.TypeChecker): ts.Type | undefined {
+  if (
+    types.length < 2 ||
+    typeof typeChecker.getBaseTypeOfLiteralType !== 'function' ||
+    !types.every(member => member.flags & ts.TypeFlags.EnumLiteral)
+  ) {
+    return undefined;
+  }
+  
+  const enumType = typeChecker.getBaseTypeOfLiteralType(types[0]);
+  const enumMembers = (enumType.flags & ts.TypeFlags.Union) ? (enumType as ts.UnionType).types : [];
+  
+  const isComplete = enumMembers.length === types.length &&
+    types.every(member => enumMembers.includes(member));
+  
+  return isComplete ? enumType : undefined;
+}
+
+/**
+ * Get the name of a property symbol - handles both Symbol and mocked property objects
+ */
+function getPropertyName(property: ts.Symbol): string {
+  return typeof property.getName === 'function' 
+    ? property.getName() 
+    : (property.name || String(property.escapedName || ''));
+}
+
+/**
+ * Format a property name as an object literal key, quoting it when it is not a valid identifier
+ */
+function formatPropertyKey(propertyName: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(propertyName)
+    ? propertyName
+    : JSON.stringify(propertyName);
+}
+
+/**
+ * Resolve the declared type of a property symbol
+ */
+function getPropertyType(property: ts.Symbol, typeChecker: ts.TypeChecker): ts.Type {
+  try {
+    if (property.valueDeclaration && typeof typeChecker.getTypeOfSymbolAtLocation === 'function') {
+      return typeChecker.getTypeOfSymbolAtLocation(property, property.valueDeclaration);
+    } else if (typeof typeChecker.getTypeOfSymbol === 'function') {
+      return typeChecker.getTypeOfSymbol(property);
+    }
+  } catch (e) {
+    // Fall through to the fallback below
+  }
+  
+  // Fallback for tests
+  return { flags: 0 } as unknown as ts.Type;
+}
+
+/**
+ * Split null and undefined out of a (possibly union) type
+ */
+function splitNullability(type: ts.Type): NullabilityInfo {
+  const members = (type.flags & ts.TypeFlags.Union) ? (type as ts.UnionType).types : [type];
+  const info: NullabilityInfo = { types: [], hasNull: false, hasUndefined: false };
+  
+  for (const member of members) {
+    if (member.flags & ts.TypeFlags.Null) {
+      info.hasNull = true;
+    } else if (member.flags & ts.TypeFlags.Undefined) {
+      info.hasUndefined = true;
+    } else {
+      info.types.push(member);
+    }
+  }
+  
+  return info;
+}
+
+/**
+ * Append the Zod modifier matching the allowed nullish values
+ */
+function applyNullability(schema: string, allowNull: boolean, allowUndefined: boolean): string {
+  if (allowNull && allowUndefined) return `${schema}.nullish()`;
+  if (allowNull) return `${schema}.nullable()`;
+  if (allowUndefined) return `${schema}.optional()`;
+  return schema;
+}
+
+/**
+ * Convert the non-nullish part of a property or optional tuple element type.
+ * Splitting off null and undefined loses the alias the type was written with,
+ * as in `role?: UserRole`, but unions keep their written members as their
+ * origin, so a union alias still references its generated schema.
+ */
+function nonNullableToZod(type: ts.Type, nullability: NullabilityInfo, context: ConversionContext): string {
+  const { origin } = type as ts.Type & { origin?: ts.Type };
+  const writtenMembers = origin && (origin.flags & ts.TypeFlags.Union) ? (origin as ts.UnionType).types : [type];
+  const aliased = writtenMembers.filter(member => !(member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)));
+  
+  const reference = aliased.length === 1 && !context.visiting.has(aliased[0])
+    ? getSchemaReference(aliased[0], context)
+    : undefined;
+  return reference ? referenceToZod(reference, context) : membersToZod(nullability, context);
+}
+
+/**
+ * Convert the non-nullish members left over from splitNullability
+ */
+function membersToZod(info: NullabilityInfo, context: ConversionContext): string {
+  const { types } = info;
+  
+  if (types.length === 0) {
+    // Only null and/or undefined were present
+    return info.hasNull ? 'z.null()' : 'z.undefined()';
+  }
+  
+  if (types.length === 1) {
+    return convertType(types[0], context);
+  }
+  
+  const enumType = getCompleteEnumType(types, context.typeChecker);
+  if (enumType) {
+    return convertType(enumType, context);
+  }
+  
+  // A union made up only of string literals is an enum
+  if (types.every(member => member.flags & ts.TypeFlags.StringLiteral)) {
+    const values = types.map(member => JSON.stringify((member as ts.StringLiteralType).value));
+    return `z.enum([${values.join(', ')}])`;
+  }
+  
+  // Tagged unions of plain objects get the faster, more precise z.discriminatedUnion
+  const discriminant = findDiscriminant(types, context);
+  if (discriminant) {
+    const members = types.map(member => {
+      const reference = getDiscriminatedMemberReference(member, context);
+      
+      // The parts of a referenced member are only inspected, so what they reference is not recorded
+      const memberContext: ConversionContext = reference
+        ? { ...context, lazyReferences: new Set(), dependencies: new Set(), importedSchemas: new Map() }
+        : context;
+      const parts = withVisiting(member, memberContext, () => buildObjectParts(member, memberContext));
+      return { reference, parts };
+    });
+    
+    // z.discriminatedUnion only accepts plain z.object options
+    if (members.every(({ parts }) => isPlainObjectSchema(parts))) {
+      const options = members.map(({ reference, parts }) =>
+        reference ? referenceToZod(reference, context) : formatObjectSchema(parts)
+      );
+      return `z.discriminatedUnion(${JSON.stringify(discriminant)}, [${options.join(', ')}])`;
+    }
+  }
+  
+  // boolean is the union true | false, so fold the two literals back together
+  const booleanLiterals = types.filter(member => member.flags & ts.TypeFlags.BooleanLiteral);
+  const otherMembers = types.filter(member => !(member.flags & ts.TypeFlags.BooleanLiteral));
+  const memberSchemas = otherMembers.map(member => convertType(member, context));
+  
+  if (booleanLiterals.length === 2) {
+    memberSchemas.push('z.boolean()');
+  } else {
+    memberSchemas.push(...booleanLiterals.map(member => convertType(member, context)));
+  }
+  
+  if (memberSchemas.length === 1) {
+    return memberSchemas[0];
+  }
+  
+  return `z.union([${memberSchemas.join(', ')}])`;
+}
+
+/**
+ * Check whether a property's type annotation explicitly includes undefined,
+ * as opposed to undefined being added by the optional modifier. Properties of
+ * mapped types such as Partial<T> are traced back to the property they map.
+ */
+function declaresUndefined(property: ts.Symbol, typeChecker: ts.TypeChecker): boolean {
+  const { links } = property as ts.Symbol & { links?: { syntheticOrigin?: ts.Symbol } };
+  if (links && links.syntheticOrigin) {
+    return declaresUndefined(links.syntheticOrigin, typeChecker);
+  }
+  
+  const declaration = property.valueDeclaration;
+  
+  if (
+    declaration &&
+    (ts.isPropertySignature(declaration) || ts.isPropertyDeclaration(declaration)) &&
+    declaration.type
+  ) {
+    return splitNullability(typeChecker.getTypeFromTypeNode(declaration.type)).hasUndefined;
+  }
+  
+  return false;
+}
+
+/**
+ * Work out whether a property may hold undefined and which presence check its
+ * schema needs beyond .optional(), which treats undefined and a missing key
+ * alike: a required property that may be undefined must still be present, and
+ * with exactOptionalPropertyTypes, `key?: T` may be missing but not undefined.
+ */
+function getPropertyPresence(
+  property: ts.Symbol,
+  propertyType: ts.Type,
+  context: ConversionContext
+): { allowsExplicitUndefined: boolean; presenceCheck?: 'present' | 'defined' } {
+  const isOptional = !!(property.flags & ts.SymbolFlags.Optional);
+  const allowsExplicitUndefined = splitNullability(propertyType).hasUndefined &&
+    (!isOptional || !context.exactOptionalPropertyTypes || declaresUndefined(property, context.typeChecker));
+  
+  if (!isOptional && allowsExplicitUndefined) {
+    return { allowsExplicitUndefined, presenceCheck: 'present' };
+  }
+  if (isOptional && !allowsExplicitUndefined && context.exactOptionalPropertyTypes) {
+    return { allowsExplicitUndefined, presenceCheck: 'defined' };
+  }
+  return { allowsExplicitUndefined };
+}
+
+/**
+ * Check whether a type is callable and has no properties of its own
+ */
+function isFunctionType(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  if (typeof typeChecker.getSignaturesOfType !== 'function') {
+    return false;
+  }
+  
+  return typeChecker.getSignaturesOfType(type, ts.SignatureKind.Call).length > 0;
+}
+
+/**
+ * Check whether a type can be called with `new`, as the value side of a class is
+ */
+function isConstructorType(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  if (typeof typeChecker.getSignaturesOfType !== 'function') {
+    return false;
+  }
+  
+  return typeChecker.getSignaturesOfType(type, ts.SignatureKind.Construct).length > 0;
+}
+
+/**
+ * Zod string methods for the values of the `@format` JSDoc tag
+ */
+const STRING_FORMATS: Record<string, string> = {
+  'email': '.email()',
+  'uuid': '.uuid()',
+  'url': '.url()',
+  'date-time': '.datetime()'
+};
+
+/**
+ * Append the refinements for the constraint tags in a property's JSDoc, such as
+ * `@minimum 0` or `@format email`. Tags only apply to the schemas they constrain:
+ * `@minimum`, `@maximum` and `@int` to numbers, `@minLength` and `@maxLength` to
+ * strings and arrays, and `@pattern` and `@format` to strings.
+ */
+function applyConstraintTags(schema: string, declaration: ts.Declaration | undefined, label: string): string {
+  if (!declaration) {
+    return schema;
+  }
+  
+  const isString = schema.startsWith('z.string(');
+  const isNumber = schema.startsWith('z.number(');
+  const isArray = schema.startsWith('z.array(');
+  let constrained = schema;
+  
+  for (const tag of ts.getJSDocTags(declaration)) {
+    const tagName = tag.tagName.text;
+    const value = (ts.getTextOfJSDocComment(tag.comment) || '').trim();
+    const ignore = (reason: string) => logger.warn(`Ignoring @${tagName} on ${label}: ${reason}`);
+    
+    switch (tagName) {
+      case 'minimum':
+      case 'maximum':
+      case 'minLength':
+      case 'maxLength': {
+        const appliesToLength = tagName === 'minLength' || tagName === 'maxLength';
+        if (appliesToLength ? !isString && !isArray : !isNumber) {
+          ignore(appliesToLength ? 'it only applies to strings and arrays' : 'it only applies to numbers');
+        } else if (value === '' || isNaN(Number(value))) {
+          ignore(`"${value}" is not a number`);
+        } else {
+          constrained += `.${tagName.startsWith('min') ? 'min' : 'max'}(${Number(value)})`;
+        }
+        break;
+      }
+      case 'int':
+        if (isNumber) {
+          constrained += '.int()';
+        } else {
+          ignore('it only applies to numbers');
+        }
+        break;
+      case 'pattern':
+        if (!isString) {
+          ignore('it only applies to strings');
+          break;
+        }
+        try {
+          new RegExp(value);
+          constrained += `.regex(/${value.replace(/\\.|\//g, match => match === '/' ? '\\/' : match)}/)`;
+        } catch (error) {
+          ignore(`"${value}" is not a valid regular expression`);
+        }
+        break;
+      case 'format':
+        if (!isString) {
+          ignore('it only applies to strings');
+        } else if (!STRING_FORMATS[value]) {
+          ignore(`unknown format "${value}", expected one of ${Object.keys(STRING_FORMATS).join(', ')}`);
+        } else {
+          constrained += STRING_FORMATS[value];
+        }
+        break;
+    }
+  }
+  
+  return constrained;
+}
+
+/**
+ * Append `.default(...)` for a `@default` tag in a property's JSDoc. The value is
+ * read as JSON, and as plain text for string schemas.
+ */
+function applyDefaultTag(schema: string, declaration: ts.Declaration | undefined, label: string): string {
+  const tag = declaration && ts.getJSDocTags(declaration).find(({ tagName }) => tagName.text === 'default');
+  if (!tag) {
+    return schema;
+  }
+  
+  const text = (ts.getTextOfJSDocComment(tag.comment) || '').trim();
+  const isString = schema.startsWith('z.string(') || schema.startsWith('z.enum(');
+  
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    value = undefined;
+  }
+  
+  if (isString && typeof value !== 'string') {
+    value = text;
+  }
+  if (value === undefined) {
+    logger.warn(`Ignoring @default on ${label}: "${text}" is not a JSON value`);
+    return schema;
+  }
+  
+  return `${schema}.default(${JSON.stringify(value)})`;
+}
+
+/**
+ * Append the JSDoc summary of a declaration as `.describe(...)`, and carry a
+ * `@deprecated` tag, with its reason if it gives one, into a `metadata` field
+ * of the schema
+ */
+function applyDocumentation(
+  schema: string,
+  symbol: ts.Symbol | undefined,
+  declaration: ts.Declaration | undefined,
+  typeChecker: ts.TypeChecker
+): string {
+  let documented = schema;
+  
+  const description = symbol && typeof symbol.getDocumentationComment === 'function'
+    ? ts.displayPartsToString(symbol.getDocumentationComment(typeChecker)).trim()
+    : '';
+  if (description) {
+    documented += `.describe(${JSON.stringify(description)})`;
+  }
+  
+  const deprecatedTag = declaration && ts.getJSDocDeprecatedTag(declaration);
+  if (deprecatedTag) {
+    const reason = (ts.getTextOfJSDocComment(deprecatedTag.comment) || '').trim();
+    const metadata = `metadata: { deprecated: ${reason ? JSON.stringify(reason) : 'true'} }`;
+    
+    // A bare reference is another schema's variable, so metadata goes on a copy.
+    // .describe creates the copy, which then takes over a copy of the original
+    // definition, keeping its description as it was.
+    documented = /^[A-Za-z_$][\w$]*$/.test(documented)
+      ? `Object.assign(${documented}.describe(""), { _def: Object.assign({}, ${documented}._def), ${metadata} })`
+      : `Object.assign(${documented}, { ${metadata} })`;
+  }
+  
+  return documented;
+}
+
+/**
+ * Analyze each property of an object-like type into z.object shape entries
+ */
+function buildObjectParts(type: ts.Type, context: ConversionContext): ObjectSchemaParts {
+  const { typeChecker, options } = context;
+  const properties = type.getProperties ? type.getProperties() : [];
+  const propertySchemas: string[] = [];
+  const presenceChecks: string[] = [];
+  
+  // Get the parent type name if available
+  let parentTypeName: string | undefined;
+  if (type.symbol && type.symbol.name) {
+    parentTypeName = type.symbol.name;
+  }
+  
+  // Process each property
+  for (const property of properties) {
+    const propertyName = getPropertyName(property);
+    const propertyKey = formatPropertyKey(propertyName);
+    const propertyType = getPropertyType(property, typeChecker);
+    const isOptional = !!(property.flags & ts.SymbolFlags.Optional);
+    const nullability = splitNullability(propertyType);
+    
+    // Start with a validator derived from the non-nullish part of the property type
+    const baseValidator = nonNullableToZod(propertyType, nullability, context);
+    
+    // Special and contextual validators take precedence over the inferred one,
+    // and constraint tags in the property's JSDoc refine either
+    const propertyLabel = `${parentTypeName || 'object'}.${propertyName}`;
+    const validator = applyConstraintTags(
+      applySpecialFieldValidation(propertyName, baseValidator, options, parentTypeName),
+      property.valueDeclaration,
+      propertyLabel
+    );
+    
+    const { allowsExplicitUndefined, presenceCheck } = getPropertyPresence(property, propertyType, context);
+    
+    if (presenceCheck === 'defined') {
+      presenceChecks.push(
+        `if (${JSON.stringify(propertyName)} in value && value[${JSON.stringify(propertyName)}] === undefined) ` +
+        `ctx.addIssue({ code: z.ZodIssueCode.custom, path: [${JSON.stringify(propertyName)}], message: 'Expected value, received undefined' });`
+      );
+    } else if (presenceCheck === 'present') {
+      presenceChecks.push(
+        `if (!(${JSON.stringify(propertyName)} in value)) ` +
+        `ctx.addIssue({ code: z.ZodIssueCode.custom, path: [${JSON.stringify(propertyName)}], message: 'Required' });`
+      );
+    }
+    
+    const finalValidator = applyDocumentation(
+      applyDefaultTag(
+        applyNullability(
+          validator,
+          nullability.hasNull && nullability.types.length > 0,
+          isOptional || allowsExplicitUndefined
+        ),
+        property.valueDeclaration,
+        propertyLabel
+      ),
+      property,
+      property.valueDeclaration,
+      typeChecker
+    );
+    
+    propertySchemas.push(`${propertyKey}: ${finalValidator}`);
+  }
+  
+  return {
+    properties: propertySchemas,
+    presenceChecks,
+    indexSignature: indexSignatureToZod(type, context)
+  };
+}
+
+/**
+ * Convert the index signature of a type, e.g. `[key: string]: number` or Record<string, T>.
+ * A string index signature covers number keys too, so it is preferred.
+ */
+function indexSignatureToZod(
+  type: ts.Type,
+  context: ConversionContext
+): { key: string; value: string } | undefined {
+  const { typeChecker } = context;
+  if (typeof typeChecker.getIndexInfosOfType !== 'function') {
+    return undefined;
+  }
+  
+  // Zod cannot validate symbol keys
+  const indexInfos = typeChecker.getIndexInfosOfType(type)
+    .filter(info => !(info.keyType.flags & ts.TypeFlags.ESSymbolLike));
+  const indexInfo = indexInfos.find(info => info.keyType.flags & ts.TypeFlags.String) || indexInfos[0];
+  
+  if (!indexInfo) {
+    return undefined;
+  }
+  
+  // Object keys are always strings at runtime, so numeric keys are coerced before validation
+  const key = (indexInfo.keyType.flags & ts.TypeFlags.Number)
+    ? 'z.coerce.number()'
+    : convertType(indexInfo.keyType, context);
+  
+  return { key, value: convertType(indexInfo.type, context) };
+}
+
+/**
+ * Check whether object schema parts produce a plain z.object, which is what
+ * .merge and z.discriminatedUnion require
+ */
+function isPlainObjectSchema(parts: ObjectSchemaParts): boolean {
+  return parts.presenceChecks.length === 0 && (parts.properties.length > 0 || !parts.indexSignature);
+}
+
+/**
+ * Join object schema parts into a z.object expression
+ */
+function formatObjectSchema(parts: ObjectSchemaParts): string {
+  const { indexSignature } = parts;
+  
+  if (parts.properties.length === 0) {
+    return indexSignature ? `z.record(${indexSignature.key}, ${indexSignature.value})` : `z.object({})`;
+  }
+  
+  // Known properties mixed with an index signature validate the remaining keys with .catchall
+  const objectSchema = indexSignature
+    ? `z.object({\n  ${parts.properties.join(',\n  ')}\n}).catchall(${indexSignature.value})`
+    : `z.object({\n  ${parts.properties.join(',\n  ')}\n})`;
+  
+  if (parts.presenceChecks.length > 0) {
+    return `${objectSchema}.superRefine((value, ctx) => {\n  ${parts.presenceChecks.join('\n  ')}\n})`;
+  }
+  
+  return objectSchema;
+}
+
+/**
+ * Convert Array<T>, T[] and readonly T[] to z.array.
+ * Returns undefined when the type is not an array.
+ */
+function arrayTypeToZod(type: ts.Type, context: ConversionContext): string | undefined {
+  const { typeChecker } = context;
+  if (typeof typeChecker.isArrayType !== 'function' || !typeChecker.isArrayType(type)) {
+    return undefined;
+  }
+  
+  const [elementType] = typeChecker.getTypeArguments(type as ts.TypeReference);
+  return `z.array(${elementType ? convertType(elementType, context) : 'z.unknown()'})`;
+}
+
+/**
+ * Convert tuple types, including optional and rest elements, to z.tuple.
+ * Returns undefined when the type is not a tuple.
+ */
+function tupleTypeToZod(type: ts.Type, context: ConversionContext): string | undefined {
+  const { typeChecker } = context;
+  if (typeof typeChecker.isTupleType !== 'function' || !typeChecker.isTupleType(type)) {
+    return undefined;
+  }
+  
+  const elementTypes = typeChecker.getTypeArguments(type as ts.TypeReference);
+  const { elementFlags } = (type as ts.TypeReference).target as ts.TupleType;
+  const isSpread = (index: number) => !!(elementFlags[index] & ts.ElementFlags.Variable);
+  
+  const restIndex = elementTypes.findIndex((_, index) => isSpread(index));
+  
+  // Zod only supports a trailing rest element, so [...A[], B] is validated as an array of A | B
+  if (restIndex !== -1 && restIndex !== elementTypes.length - 1) {
+    logger.trace(`Tuple ${typeChecker.typeToString(type)} has a leading rest element, using z.array`);
+    const schemas = Array.from(new Set(elementTypes.map(element => convertType(element, context))));
+    return `z.array(${schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(', ')}])`})`;
+  }
+  
+  const items: string[] = [];
+  let requiredCount = 0;
+  let rest: string | undefined;
+  
+  elementTypes.forEach((elementType, index) => {
+    if (isSpread(index)) {
+      rest = convertType(elementType, context);
+    } else if (elementFlags[index] & ts.ElementFlags.Optional) {
+      // The element type already includes the undefined added by `?`
+      const nullability = splitNullability(elementType);
+      items.push(applyNullability(
+        nonNullableToZod(elementType, nullability, context),
+        nullability.hasNull && nullability.types.length > 0,
+        true
+      ));
+    } else {
+      items.push(convertType(elementType, context));
+      requiredCount = index + 1;
+    }
+  });
+  
+  const withRest = (tuple: string) => rest ? `${tuple}.rest(${rest})` : tuple;
+  
+  if (requiredCount === items.length) {
+    return withRest(`z.tuple([${items.join(', ')}])`);
+  }
+  
+  // z.tuple rejects arrays shorter than its item list, so each allowed length of
+  // a tuple with optional elements becomes its own option
+  const variants: string[] = [];
+  for (let length = requiredCount; length <= items.length; length++) {
+    const tuple = `z.tuple([${items.slice(0, length).join(', ')}])`;
+    variants.push(length === items.length ? withRest(tuple) : tuple);
+  }
+  
+  return `z.union([${variants.join(', ')}])`;
+}
+
+/**
+ * Check whether a declaration contributes to the global scope: it lives in a
+ * default library file, a `declare global` block, or a global script declaration file
+ */
+function isGlobalDeclaration(declaration: ts.Declaration): boolean {
+  const sourceFile = declaration.getSourceFile();
+  
+  if (sourceFile.hasNoDefaultLib) {
+    return true;
+  }
+  
+  for (let node: ts.Node | undefined = declaration.parent; node; node = node.parent) {
+    if (ts.isModuleDeclaration(node) && (node.flags & ts.NodeFlags.GlobalAugmentation)) {
+      return true;
+    }
+  }
+  
+  return sourceFile.isDeclarationFile && !ts.isExternalModule(sourceFile) && declaration.parent === sourceFile;
+}
+
+/**
+ * Convert well-known global classes such as Date, Map and Promise using the
+ * built-in registry instead of expanding their prototype members.
+ * Returns undefined when the type is not one of them.
+ */
+function builtinTypeToZod(type: ts.Type, context: ConversionContext): string | undefined {
+  const symbol = type.symbol;
+  if (!(type.flags & ts.TypeFlags.Object) || !symbol || !symbol.declarations) {
+    return undefined;
+  }
+  
+  const createSchema = Object.prototype.hasOwnProperty.call(BUILTIN_TYPE_SCHEMAS, symbol.name)
+    ? BUILTIN_TYPE_SCHEMAS[symbol.name]
+    : undefined;
+  
+  // A user-declared class that happens to be called Date is not the global one
+  if (!createSchema || !symbol.declarations.some(isGlobalDeclaration)) {
+    return undefined;
+  }
+  
+  const isReference = !!((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference);
+  const typeArguments = isReference
+    ? context.typeChecker.getTypeArguments(type as ts.TypeReference).map(argument => convertType(argument, context))
+    : [];
+  
+  return createSchema(typeArguments);
+}
+
+/**
+ * Check whether a type is a plain (non-callable) object type
+ */
+function isObjectLikeType(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  return !!(type.flags & ts.TypeFlags.Object) && !isFunctionType(type, typeChecker) && !isConstructorType(type, typeChecker);
+}
+
+/**
+ * A generic declaration instantiated with concrete type arguments, e.g. Container<User>
+ */
+interface GenericInstantiation {
+  symbol: ts.Symbol;
+  typeArguments: readonly ts.Type[];
+}
+
+/**
+ * Get the declaration and type arguments a generic instantiation was created from
+ */
+function getGenericInstantiation(type: ts.Type, typeChecker: ts.TypeChecker): GenericInstantiation | undefined {
+  if (type.aliasSymbol && type.aliasTypeArguments && type.aliasTypeArguments.length > 0) {
+    return { symbol: type.aliasSymbol, typeArguments: type.aliasTypeArguments };
+  }
+  
+  const objectFlags = (type.flags & ts.TypeFlags.Object) ? (type as ts.ObjectType).objectFlags : 0;
+  if (!(objectFlags & ts.ObjectFlags.Reference) || !type.symbol) {
+    return undefined;
+  }
+  
+  // Type arguments of class and interface references end with the implicit `this` type
+  const target = (type as ts.TypeReference).target as ts.InterfaceType;
+  const typeParameterCount = target.typeParameters ? target.typeParameters.length : 0;
+  const typeArguments = typeChecker.getTypeArguments(type as ts.TypeReference).slice(0, typeParameterCount);
+  
+  return typeArguments.length > 0 ? { symbol: type.symbol, typeArguments } : undefined;
+}
+
+/**
+ * Get the generic declaration and type arguments written in a type reference node
+ */
+function getReferencedInstantiation(
+  node: ts.TypeNode,
+  typeChecker: ts.TypeChecker
+): GenericInstantiation | undefined {
+  if (!ts.isTypeReferenceNode(node) || !node.typeArguments) {
+    return undefined;
+  }
+  
+  const symbol = typeChecker.getSymbolAtLocation(node.typeName);
+  return symbol
+    ? { symbol, typeArguments: node.typeArguments.map(argument => typeChecker.getTypeFromTypeNode(argument)) }
+    : undefined;
+}
+
+/**
+ * Check whether a symbol is declared with type parameters, which means its
+ * schema is emitted as a factory function
+ */
+function isGenericDeclaration(symbol: ts.Symbol): boolean {
+  return (symbol.declarations || []).some(declaration =>
+    (ts.isInterfaceDeclaration(declaration) ||
+      ts.isTypeAliasDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration)) &&
+    !!declaration.typeParameters &&
+    declaration.typeParameters.length > 0
+  );
+}
+
+/**
+ * Look up the schema generated for a named type, if there is one. Instantiations
+ * of generic declarations call the schema factory with their converted type arguments.
  */
-export function typeToZodSchema(
-  type: ts.Type, 
-  typeChecker: ts.TypeChecker,
-  program?: ts.Program,
-  options?: TypeCompilerOptions
-): string {
-  logger.trace(`Converting type to Zod schema: ${typeChecker.typeToString(type)}`);
+function getSchemaReference(type: ts.Type, context: ConversionContext): SchemaReference | undefined {
+  if (!context.schemaNames) {
+    return undefined;
+  }
+  
+  const instantiation = getGenericInstantiation(type, context.typeChecker);
+  const symbol = instantiation ? instantiation.symbol : type.aliasSymbol || type.symbol;
+  const name = symbol && context.schemaNames.get(symbol);
+  if (!name) {
+    return undefined;
+  }
+  
+  if (
+    instantiation &&
+    (!isGenericDeclaration(symbol) || isComputedGenericDeclaration(symbol, context.typeChecker))
+  ) {
+    return undefined;
+  }
+  
+  // The value side of a class or enum, such as `typeof User`, shares the symbol
+  // but is not the type the schema validates
+  const declaredType = context.typeChecker.getDeclaredTypeOfSymbol(symbol);
+  const isDeclaredType = instantiation
+    ? !!type.aliasSymbol || (type as ts.TypeReference).target === declaredType
+    : type === declaredType;
+  if (!isDeclaredType) {
+    return undefined;
+  }
+  
+  // Schemas of types declared in other modules are imported from that module
+  const [symbolDeclaration] = symbol.declarations || [];
+  const sourceFile = symbolDeclaration && symbolDeclaration.getSourceFile();
+  const isImported = !!sourceFile && !!context.declaration && sourceFile !== context.declaration.getSourceFile();
+  if (isImported) {
+    context.importedSchemas.set(name, sourceFile.fileName);
+  }
+  
+  const expression = instantiation
+    ? `${name}(${instantiation.typeArguments.map(argument => convertType(argument, context)).join(', ')})`
+    : name;
+  
+  // Schemas imported from a file in an import cycle may not be initialized yet
+  const deferred = (!!context.cyclicSchemas && context.cyclicSchemas.has(name)) ||
+    (isImported && !!context.cyclicFiles && context.cyclicFiles.has(sourceFile.fileName));
+  
+  return { name, expression, deferred };
+}
+
+/**
+ * Reference a generated schema through its variable. Schemas in a reference
+ * cycle may not be initialized yet, so they are referenced lazily.
+ */
+function referenceToZod(reference: SchemaReference, context: ConversionContext): string {
+  if (reference.deferred) {
+    context.lazyReferences.add(reference.name);
+    return `z.lazy(() => ${reference.expression})`;
+  }
+  
+  context.dependencies.add(reference.name);
+  return reference.expression;
+}
+
+/**
+ * Convert an intersection type. Named object members reference their generated
+ * schemas and are merged; anonymous ones are flattened into a single z.object.
+ */
+function intersectionTypeToZod(type: ts.IntersectionType, context: ConversionContext): string {
+  const { typeChecker } = context;
+  const objectMembers = type.types.filter(member => isObjectLikeType(member, typeChecker));
+  const otherMembers = type.types.filter(member => !isObjectLikeType(member, typeChecker));
+  
+  if (otherMembers.length > 0) {
+    // Branded primitives such as `string & { __brand: 'UserId' }` can only be checked as the primitive
+    const isBrandedPrimitive = otherMembers.every(
+      member => primitiveTypeToZod(member) || literalTypeToZod(member, typeChecker)
+    );
+    const members = isBrandedPrimitive ? otherMembers : type.types;
+    return members
+      .map(member => convertType(member, context))
+      .reduce((combined, schema) => `${combined}.and(${schema})`);
+  }
+  
+  // Schemas in a reference cycle cannot be merged before they are initialized
+  const references = objectMembers.map(member => {
+    const reference = getSchemaReference(member, context);
+    return reference && !reference.deferred ? referenceToZod(reference, context) : undefined;
+  });
+  
+  // Nothing to reference, so let the checker resolve the combined properties
+  if (references.every(reference => !reference)) {
+    return objectTypeToZod(type, context);
+  }
+  
+  const schemas = objectMembers.map((member, index) => references[index] || objectTypeToZod(member, context));
+  
+  // .merge needs plain z.object schemas on both sides, otherwise fall back to .and
+  const isMergeable = objectMembers.every(member => isPlainObjectSchema(buildObjectParts(member, context)));
+  const method = isMergeable ? 'merge' : 'and';
+  
+  return schemas.reduce((combined, schema) => `${combined}.${method}(${schema})`);
+}
+
+/**
+ * Format property keys as the mask taken by .pick and .omit, e.g. { id: true }
+ */
+function formatKeyMask(keys: string[]): string {
+  return `{ ${keys.map(key => `${formatPropertyKey(key)}: true`).join(', ')} }`;
+}
+
+/**
+ * Get the property names from a string literal (union) type, or undefined when
+ * the keys are not all known string literals
+ */
+function getLiteralKeys(type: ts.Type): string[] | undefined {
+  const members = type.flags & ts.TypeFlags.Union ? (type as ts.UnionType).types : [type];
+  if (!members.every(member => member.flags & ts.TypeFlags.StringLiteral)) {
+    return undefined;
+  }
+  
+  return members.map(member => (member as ts.StringLiteralType).value);
+}
+
+/**
+ * Check whether the schema generated for a type is a z.object, which the
+ * object methods such as .partial and .pick need at runtime
+ */
+function compilesToObjectSchema(type: ts.Type, context: ConversionContext): boolean {
+  const { typeChecker } = context;
+  if (
+    !isObjectLikeType(type, typeChecker) ||
+    type.getProperties().length === 0 ||
+    (typeof typeChecker.isArrayType === 'function' && typeChecker.isArrayType(type)) ||
+    (typeof typeChecker.isTupleType === 'function' && typeChecker.isTupleType(type))
+  ) {
+    return false;
+  }
+  
+  // Presence checks wrap the object in .superRefine
+  return !type.getProperties().some(property =>
+    getPropertyPresence(property, getPropertyType(property, typeChecker), context).presenceCheck
+  );
+}
+
+/**
+ * Convert Partial, Required, Readonly, Pick and Omit of a named type by calling
+ * the matching method on the type's schema, e.g. UserSchema.partial(), so the
+ * relation stays visible. Returns undefined when the type is not such an
+ * instantiation; the checker has then already resolved its properties.
+ */
+function utilityTypeToZod(instantiation: GenericInstantiation, context: ConversionContext): string | undefined {
+  const { symbol, typeArguments } = instantiation;
+  if (
+    !Object.prototype.hasOwnProperty.call(UTILITY_TYPE_SCHEMAS, symbol.name) ||
+    !(symbol.declarations || []).some(isGlobalDeclaration)
+  ) {
+    return undefined;
+  }
+  
+  // .partial() accepts explicit undefined, which exactOptionalPropertyTypes rejects
+  if (symbol.name === 'Partial' && context.exactOptionalPropertyTypes) {
+    return undefined;
+  }
+  
+  const [source, keyType] = typeArguments;
+  const keys = keyType ? getLiteralKeys(keyType) : [];
+  if (!keys || !compilesToObjectSchema(source, context)) {
+    return undefined;
+  }
+  
+  // Omit accepts keys the type does not have, which the mask of .omit does not
+  const sourceKeys = keys.filter(key => !!source.getProperty(key));
   
-  // For demonstration, let's enhance our simplified implementation
-  // In a real implementation, we would analyze the properties of the type
-  // and apply special validators based on property names
+  const reference = getSchemaReference(source, context);
+  if (!reference || reference.deferred) {
+    return undefined;
+  }
+  
+  return UTILITY_TYPE_SCHEMAS[symbol.name](referenceToZod(reference, context), sourceKeys);
+}
+
+/**
+ * Check whether a type is a mapped type over a type parameter, whose keys are
+ * only known once it is instantiated
+ */
+function isGenericMappedType(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  const objectFlags = (type.flags & ts.TypeFlags.Object) ? (type as ts.ObjectType).objectFlags : 0;
+  return !!(objectFlags & ts.ObjectFlags.Mapped) &&
+    type.getProperties().length === 0 &&
+    typeof typeChecker.getIndexInfosOfType === 'function' &&
+    typeChecker.getIndexInfosOfType(type).length === 0;
+}
+
+/**
+ * Check whether a generic declaration computes its shape from its type arguments,
+ * as mapped and conditional types do. A schema factory only receives the schemas
+ * of the arguments, so instantiations of these are resolved by the checker instead.
+ */
+export function isComputedGenericDeclaration(symbol: ts.Symbol, typeChecker: ts.TypeChecker): boolean {
+  if (!(symbol.flags & ts.SymbolFlags.TypeAlias)) {
+    return false;
+  }
+  
+  const declaredType = typeChecker.getDeclaredTypeOfSymbol(symbol);
+  const objectFlags = (declaredType.flags & ts.TypeFlags.Object) ? (declaredType as ts.ObjectType).objectFlags : 0;
+  return !!(declaredType.flags & (ts.TypeFlags.Conditional | ts.TypeFlags.Index | ts.TypeFlags.IndexedAccess)) ||
+    !!(objectFlags & ts.ObjectFlags.Mapped);
+}
+
+/**
+ * Get the generated schema of a discriminated union member to reference instead
+ * of inlining the member, when that schema is the z.object the member would be
+ * inlined as. Schemas in a reference cycle may not be initialized yet or are
+ * typed z.ZodType, which z.discriminatedUnion does not accept.
+ */
+function getDiscriminatedMemberReference(member: ts.Type, context: ConversionContext): SchemaReference | undefined {
+  const reference = getSchemaReference(member, context);
+  const [declaration] = (member.symbol && member.symbol.declarations) || [];
+  const isObjectDeclaration = !!declaration &&
+    (ts.isInterfaceDeclaration(declaration) ||
+      (ts.isTypeLiteralNode(declaration) && ts.isTypeAliasDeclaration(declaration.parent)));
   
-  // Check if the type has properties (like an interface or class)
-  if (type.getProperties && type.getProperties().length > 0) {
-    const properties = type.getProperties();
-    const propertySchemas: string[] = [];
+  return reference && !reference.deferred && reference.expression === reference.name && isObjectDeclaration &&
+    !isRecursiveType(member, context.typeChecker)
+    ? reference
+    : undefined;
+}
+
+/**
+ * Check whether a type reaches itself through its properties, type arguments or
+ * union and intersection members, which puts the schema generated for it in a
+ * reference cycle
+ */
+function isRecursiveType(type: ts.Type, typeChecker: ts.TypeChecker): boolean {
+  const seen = new Set<ts.Type>([type]);
+  
+  const getReachableTypes = (current: ts.Type): readonly ts.Type[] => {
+    if (current.isUnionOrIntersection()) {
+      return current.types;
+    }
+    if (!(current.flags & ts.TypeFlags.Object)) {
+      return [];
+    }
+    
+    const typeArguments = ((current as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference)
+      ? typeChecker.getTypeArguments(current as ts.TypeReference)
+      : [];
     
-    // Get the parent type name if available
-    let parentTypeName: string | undefined;
-    if (type.symbol && type.symbol.name) {
-      parentTypeName = type.symbol.name;
+    // Library types such as arrays and maps only lead on through their type arguments
+    const [declaration] = (current.symbol && current.symbol.declarations) || [];
+    if (!declaration || declaration.getSourceFile().isDeclarationFile) {
+      return typeArguments;
     }
     
-    // Process each property
-    for (const property of properties) {
-      // Get the property name - handle both Symbol and property objects
-      const propertyName = typeof property.getName === 'function' 
-        ? property.getName() 
-        : (property.name || String(property.escapedName || ''));
-      
-      // Get the property type
-      let propertyType;
-      try {
-        if (property.valueDeclaration && typeof typeChecker.getTypeOfSymbolAtLocation === 'function') {
-          propertyType = typeChecker.getTypeOfSymbolAtLocation(property, property.valueDeclaration);
-        } else if (typeof typeChecker.getTypeOfSymbol === 'function') {
-          propertyType = typeChecker.getTypeOfSymbol(property);
-        } else {
-          // Fallback for tests
-          propertyType = { flags: 0 };
-        }
-      } catch (e) {
-        // Fallback for tests
-        propertyType = { flags: 0 };
+    return [
+      ...typeArguments,
+      ...current.getProperties().map(property => getPropertyType(property, typeChecker)),
+      ...typeChecker.getIndexInfosOfType(current).map(info => info.type)
+    ];
+  };
+  
+  const reaches = (current: ts.Type): boolean =>
+    getReachableTypes(current).some(next => {
+      if (next === type) {
+        return true;
+      }
+      if (seen.has(next)) {
+        return false;
+      }
+      seen.add(next);
+      return reaches(next);
+    });
+  
+  return reaches(type);
+}
+
+/**
+ * Convert an object-like type to a z.object schema, analyzing each property
+ */
+function objectTypeToZod(type: ts.Type, context: ConversionContext): string {
+  return formatObjectSchema(buildObjectParts(type, context));
+}
+
+/**
+ * Find a required property whose type is a distinct literal in every union member,
+ * which lets the union be emitted as z.discriminatedUnion
+ */
+function findDiscriminant(types: ts.Type[], context: ConversionContext): string | undefined {
+  const { typeChecker, options } = context;
+  const isObjectMember = (member: ts.Type) =>
+    !!(member.flags & ts.TypeFlags.Object) &&
+    !isFunctionType(member, typeChecker) &&
+    member.getProperties().length > 0;
+  
+  if (types.length < 2 || !types.every(isObjectMember)) {
+    return undefined;
+  }
+  
+  for (const candidate of types[0].getProperties()) {
+    const name = candidate.getName();
+    const seenValues = new Set<string>();
+    
+    const isDiscriminant = types.every(member => {
+      const property = member.getProperty(name);
+      if (!property || (property.flags & ts.SymbolFlags.Optional)) {
+        return false;
       }
       
-      // Start with a basic validator based on the property type
-      const baseValidator = 'z.any()';
+      // A special validator would replace the literal schema Zod needs to read
+      if (applySpecialFieldValidation(name, '', options, member.symbol?.name) !== '') {
+        return false;
+      }
       
-      // In a real implementation, we would analyze the property type here
-      // and convert it to the appropriate Zod schema
+      const nullability = splitNullability(getPropertyType(property, typeChecker));
+      const values = nullability.types;
       
-      // Apply any special field validation
-      const finalValidator = applySpecialFieldValidation(propertyName, baseValidator, options, parentTypeName);
+      // Zod can only read literal or enum discriminators
+      if (
+        values.length === 0 ||
+        nullability.hasNull ||
+        nullability.hasUndefined ||
+        (values.length > 1 && !values.every(value => value.flags & ts.TypeFlags.StringLiteral))
+      ) {
+        return false;
+      }
       
-      // Add to property schemas
-      propertySchemas.push(`${propertyName}: ${finalValidator}`);
-    }
+      return values.every(value => {
+        const literal = literalTypeToZod(value, typeChecker);
+        if (!literal || seenValues.has(literal)) {
+          return false;
+        }
+        seenValues.add(literal);
+        return true;
+      });
+    });
     
-    // Return a Zod object schema with the processed properties
-    if (propertySchemas.length > 0) {
-      return `z.object({\n  ${propertySchemas.join(',\n  ')}\n})`;
+    if (isDiscriminant) {
+      return name;
     }
   }
   
-  // For simplicity, return a basic object schema for other cases
-  return `z.object({})`;
+  return undefined;
+}
+
+/**
+ * Refer back to a type that is already being expanded. Named types are
+ * referenced lazily through their schema variable; anonymous cycles cannot be.
+ */
+function recursiveReferenceToZod(type: ts.Type, context: ConversionContext): string {
+  const reference = getSchemaReference(type, context);
+  
+  if (reference) {
+    context.lazyReferences.add(reference.name);
+    return `z.lazy(() => ${reference.expression})`;
+  }
+  
+  logger.debug(`Recursive type without a generated schema: ${context.typeChecker.typeToString(type)}, using z.any()`);
+  return 'z.any()';
+}
+
+/**
+ * Run a conversion step with the type marked as being expanded
+ */
+function withVisiting<T>(type: ts.Type, context: ConversionContext, convert: () => T): T {
+  context.visiting.add(type);
+  try {
+    return convert();
+  } finally {
+    context.visiting.delete(type);
+  }
+}
+
+/**
+ * Convert a type parameter. Inside a generic declaration it is the schema passed
+ * to the factory; elsewhere only its constraint is known.
+ */
+function typeParameterToZod(type: ts.Type, context: ConversionContext): string {
+  const parameterSchema = context.typeParameterSchemas.get(type);
+  if (parameterSchema) {
+    return parameterSchema;
+  }
+  
+  return constraintToZod(type, context);
+}
+
+/**
+ * Convert a type that is only known by its constraint, such as a type parameter
+ * outside its declaration or a conditional type that depends on one
+ */
+function constraintToZod(type: ts.Type, context: ConversionContext): string {
+  const constraint = context.typeChecker.getBaseConstraintOfType(type);
+  if (constraint && constraint !== type && !(constraint.flags & ts.TypeFlags.Unknown)) {
+    return convertType(constraint, context);
+  }
+  
+  return 'z.any()';
+}
+
+/**
+ * Convert unions, intersections, collections and object types
+ */
+function convertStructuredType(type: ts.Type, context: ConversionContext): string {
+  if (type.flags & ts.TypeFlags.Union) {
+    const nullability = splitNullability(type);
+    return applyNullability(
+      membersToZod(nullability, context),
+      nullability.hasNull && nullability.types.length > 0,
+      nullability.hasUndefined
+    );
+  }
+  
+  if (type.flags & ts.TypeFlags.Intersection) {
+    return intersectionTypeToZod(type as ts.IntersectionType, context);
+  }
+  
+  // Conditional, keyof and indexed access types that depend on a type parameter
+  if (type.flags & (ts.TypeFlags.Conditional | ts.TypeFlags.Index | ts.TypeFlags.IndexedAccess)) {
+    return constraintToZod(type, context);
+  }
+  
+  const instantiation = getGenericInstantiation(type, context.typeChecker);
+  const utility = instantiation && utilityTypeToZod(instantiation, context);
+  if (utility) {
+    return utility;
+  }
+  
+  if (isGenericMappedType(type, context.typeChecker)) {
+    return 'z.record(z.string(), z.any())';
+  }
+  
+  const builtin = builtinTypeToZod(type, context);
+  if (builtin) {
+    return builtin;
+  }
+  
+  const collection = arrayTypeToZod(type, context) || tupleTypeToZod(type, context);
+  if (collection) {
+    return collection;
+  }
+  
+  const hasProperties = !!type.getProperties && type.getProperties().length > 0;
+  
+  if (!hasProperties && isFunctionType(type, context.typeChecker)) {
+    return 'z.function()';
+  }
+  
+  // z.function() would wrap a class in a function that cannot be called with new
+  if (isConstructorType(type, context.typeChecker)) {
+    return 'z.instanceof(Function)';
+  }
+  
+  if (hasProperties || (type.flags & ts.TypeFlags.Object)) {
+    return objectTypeToZod(type, context);
+  }
+  
+  logger.trace(`No Zod mapping for type: ${context.typeChecker.typeToString(type)}, using z.any()`);
+  return 'z.any()';
+}
+
+/**
+ * Recursively convert a type to a Zod expression
+ */
+function convertType(type: ts.Type, context: ConversionContext): string {
+  // Named types reuse their generated schema, and instantiations such as
+  // Container<User> call the generic schema factory
+  const reference = context.visiting.has(type) ? undefined : getSchemaReference(type, context);
+  if (reference) {
+    return referenceToZod(reference, context);
+  }
+  
+  return convertTypeStructure(type, context);
+}
+
+/**
+ * Convert a type by its own structure, without referencing its generated schema
+ */
+function convertTypeStructure(type: ts.Type, context: ConversionContext): string {
+  const primitive = primitiveTypeToZod(type);
+  if (primitive) {
+    return primitive;
+  }
+  
+  const enumSchema = enumTypeToZod(type, context);
+  if (enumSchema) {
+    return enumSchema;
+  }
+  
+  const literal = literalTypeToZod(type, context.typeChecker) || templateLiteralTypeToZod(type);
+  if (literal) {
+    return literal;
+  }
+  
+  if (type.flags & ts.TypeFlags.TypeParameter) {
+    return typeParameterToZod(type, context);
+  }
+  
+  if (context.visiting.has(type)) {
+    return recursiveReferenceToZod(type, context);
+  }
+  
+  return withVisiting(type, context, () => convertStructuredType(type, context));
+}
+
+/**
+ * Name of the factory parameter that receives the schema for a type parameter, e.g. T -> tSchema
+ */
+function getTypeParameterSchemaName(typeParameterName: string): string {
+  return `${typeParameterName.charAt(0).toLowerCase()}${typeParameterName.slice(1)}Schema`;
+}
+
+/**
+ * Convert a TypeScript type to a Zod schema, along with the information the
+ * transformer needs to emit it
+ *
+ * The scope lets named types reference their generated schemas instead of being
+ * inlined. When its declaration has type parameters, the schema is the body of
+ * a factory function taking one schema per type parameter.
+ */
+export function generateZodSchema(
+  type: ts.Type, 
+  typeChecker: ts.TypeChecker,
+  program?: ts.Program,
+  options?: TypeCompilerOptions,
+  scope: SchemaScope = {}
+): ZodSchemaResult {
+  const { schemaNames, declaration, cyclicSchemas, cyclicFiles } = scope;
+  logger.trace(`Converting type to Zod schema: ${typeChecker.typeToString(type)}`);
+  
+  const compilerOptions = program && typeof program.getCompilerOptions === 'function'
+    ? program.getCompilerOptions()
+    : {};
+  
+  const context: ConversionContext = {
+    typeChecker,
+    program,
+    options,
+    exactOptionalPropertyTypes: !!compilerOptions.exactOptionalPropertyTypes,
+    schemaNames,
+    declaration,
+    cyclicSchemas,
+    cyclicFiles,
+    typeParameterSchemas: new Map(),
+    visiting: new Set(),
+    lazyReferences: new Set(),
+    dependencies: new Set(),
+    importedSchemas: scope.importedSchemas || new Map()
+  };
+  
+  // Parameter and return value validators pass the function as the declaration,
+  // which has no type parameters or documentation of the schema's own
+  const typeDeclaration = declaration &&
+    (ts.isInterfaceDeclaration(declaration) ||
+      ts.isTypeAliasDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration) ||
+      ts.isEnumDeclaration(declaration))
+    ? declaration
+    : undefined;
+  const typeParameterDeclarations = typeDeclaration && !ts.isEnumDeclaration(typeDeclaration)
+    ? typeDeclaration.typeParameters || []
+    : [];
+  
+  // Map every type parameter first, since defaults may refer to earlier parameters
+  for (const typeParameter of typeParameterDeclarations) {
+    context.typeParameterSchemas.set(
+      typeChecker.getTypeAtLocation(typeParameter.name),
+      getTypeParameterSchemaName(typeParameter.name.text)
+    );
+  }
+  
+  const typeParameters = typeParameterDeclarations.map(typeParameter => ({
+    name: getTypeParameterSchemaName(typeParameter.name.text),
+    defaultSchema: typeParameter.default
+      ? convertType(typeChecker.getTypeFromTypeNode(typeParameter.default), context)
+      : undefined
+  }));
+  
+  // An alias such as `type UserSummary = Pick<User, 'id'>` can take over the
+  // resolved type, so the utility type it refers to is read from the declaration
+  const aliasedInstantiation = declaration && ts.isTypeAliasDeclaration(declaration)
+    ? getReferencedInstantiation(declaration.type, typeChecker)
+    : undefined;
+  
+  // The declared type itself is never a reference to its own schema, but an alias
+  // of another named type, such as `type Customer = User`, reuses that type's schema
+  const declarationName = declaration && ts.getNameOfDeclaration(declaration);
+  const declarationSymbol = declarationName && typeChecker.getSymbolAtLocation(declarationName);
+  const isAliasOfNamedType = !!declarationSymbol && (type.aliasSymbol || type.symbol) !== declarationSymbol;
+  
+  const typeSchema = (aliasedInstantiation && utilityTypeToZod(aliasedInstantiation, context)) ||
+    (isAliasOfNamedType ? convertType(type, context) : convertTypeStructure(type, context));
+  const schema = typeDeclaration
+    ? applyDocumentation(typeSchema, declarationSymbol, typeDeclaration, typeChecker)
+    : typeSchema;
+  
+  return {
+    schema,
+    lazyReferences: context.lazyReferences,
+    dependencies: context.dependencies,
+    importedSchemas: context.importedSchemas,
+    typeParameters: typeParameters.length > 0 ? typeParameters : undefined
+  };
 }
 
 /**
- * Generate a validator for function parameters
+ * Convert a TypeScript type to a Zod schema
+ */
+export function typeToZodSchema(
+  type: ts.Type, 
+  typeChecker: ts.TypeChecker,
+  program?: ts.Program,
+  options?: TypeCompilerOptions,
+  schemaNames?: Map<ts.Symbol, string>
+): string {
+  return generateZodSchema(type, typeChecker, program, options, { schemaNames }).schema;
+}
+
+/**
+ * Get the parameters a function parameter validator checks: those with a plain
+ * name and a declared type
+ */
+export function getValidatedParameters(
+  node: ts.FunctionDeclaration | ts.MethodDeclaration | ts.ConstructorDeclaration
+): Array<ts.ParameterDeclaration & { name: ts.Identifier; type: ts.TypeNode }> {
+  return node.parameters.filter((param): param is ts.ParameterDeclaration & { name: ts.Identifier; type: ts.TypeNode } =>
+    ts.isIdentifier(param.name) && !!param.type && param.name.text !== 'this'
+  );
+}
+
+/**
+ * Generate a validator for function parameters. Parameter types that have a
+ * schema in `scope.schemaNames` reference it.
  */
 export function generateFunctionParamsValidator(
-  node: ts.FunctionDeclaration | ts.MethodDeclaration,
+  node: ts.FunctionDeclaration | ts.MethodDeclaration | ts.ConstructorDeclaration,
   typeChecker: ts.TypeChecker,
-  options?: TypeCompilerOptions
+  options?: TypeCompilerOptions,
+  scope: SchemaScope = {},
+  program?: ts.Program
 ): string {
-  const params = node.parameters;
   const paramsObj: { [key: string]: string } = {};
   
   logger.debug(`Generating validator for function parameters: ${node.name?.getText() || 'anonymous'}`);
   
-  // Generate schemas for each parameter
-  for (const param of params) {
-    if (!param.name || !ts.isIdentifier(param.name) || !param.type) {
-      logger.trace(`Skipping parameter with no name or type`);
-      continue;
-    }
-    
+  // Generate schemas for each parameter with a name and type
+  for (const param of getValidatedParameters(node)) {
     const paramName = param.name.text;
     const paramType = typeChecker.getTypeFromTypeNode(param.type);
     
     logger.trace(`Processing parameter: ${paramName}`);
-    const paramSchema = typeToZodSchema(paramType, typeChecker);
-    paramsObj[paramName] = paramSchema;
+    const paramSchema = generateZodSchema(paramType, typeChecker, program, options, {
+      ...scope,
+      declaration: node
+    }).schema;
+    
+    // Parameters with a question mark or a default value may be omitted
+    const isOptional = !!param.questionToken || !!param.initializer;
+    paramsObj[paramName] = isOptional && !paramSchema.endsWith('.optional()')
+      ? `${paramSchema}.optional()`
+      : paramSchema;
   }
   
   // Create a validator function
@@ -232,13 +1797,81 @@ export function generateFunctionParamsValidator(
 }
 
 /**
- * Generate validators for class methods
+ * Generate a validator for the values a function returns, checking the resolved
+ * value of functions that return a promise. Returns undefined when the function
+ * declares no return type, or one that any value satisfies, such as `void`.
+ */
+export function generateReturnValueValidator(
+  node: ts.FunctionDeclaration | ts.MethodDeclaration,
+  typeChecker: ts.TypeChecker,
+  options?: TypeCompilerOptions,
+  scope: SchemaScope = {},
+  program?: ts.Program
+): { schema: string; awaited: boolean } | undefined {
+  if (!node.type || node.asteriskToken) {
+    return undefined;
+  }
+  
+  const returnType = typeChecker.getTypeFromTypeNode(node.type);
+  const resolvedType = typeChecker.getAwaitedType(returnType) || returnType;
+  const unconstrainedFlags = ts.TypeFlags.Void | ts.TypeFlags.Undefined | ts.TypeFlags.Never |
+    ts.TypeFlags.Any | ts.TypeFlags.Unknown;
+  if (resolvedType.flags & unconstrainedFlags) {
+    return undefined;
+  }
+  
+  logger.debug(`Generating validator for return value: ${node.name?.getText() || 'anonymous'}`);
+  
+  const isAsync = !!(ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Async);
+  return {
+    schema: generateZodSchema(resolvedType, typeChecker, program, options, {
+      ...scope,
+      declaration: node
+    }).schema,
+    awaited: isAsync || resolvedType !== returnType
+  };
+}
+
+/**
+ * Get the name a class constructor or method is validated under, `Constructor`
+ * for constructors
+ */
+function getClassMemberName(member: ts.ClassElement): string | undefined {
+  if (ts.isConstructorDeclaration(member)) {
+    return 'Constructor';
+  }
+  return ts.isMethodDeclaration(member) && ts.isIdentifier(member.name) ? member.name.text : undefined;
+}
+
+/**
+ * Get the name of the parameter or return value validator generated for a class
+ * constructor or method
+ */
+export function getMethodValidatorName(
+  className: string,
+  member: ts.MethodDeclaration | ts.ConstructorDeclaration,
+  zodSchemaPrefix: string = 'z',
+  options?: TypeCompilerOptions,
+  validates: 'Params' | 'Return' = 'Params'
+): string | undefined {
+  const methodName = getClassMemberName(member);
+  return methodName && getSchemaName(`${className}${methodName}${validates}`, `method${validates}`, {
+    ...options,
+    zodSchemaPrefix
+  });
+}
+
+/**
+ * Generate validators for the parameters of class constructors and methods.
+ * The constructor's validator is named `${className}ConstructorParams`.
  */
 export function generateClassValidators(
   node: ts.ClassDeclaration,
   typeChecker: ts.TypeChecker,
   zodSchemaPrefix: string = 'z',
-  options?: TypeCompilerOptions
+  options?: TypeCompilerOptions,
+  scope: SchemaScope = {},
+  program?: ts.Program
 ): ts.Statement[] {
   const validators: ts.Statement[] = [];
   
@@ -251,34 +1884,44 @@ export function generateClassValidators(
   logger.debug(`Generating validators for class: ${className}`);
   
   // Find methods that should be validated
+  const validatedNames = new Set<string>();
   for (const member of node.members) {
-    if (!ts.isMethodDeclaration(member)) {
+    if (!ts.isMethodDeclaration(member) && !ts.isConstructorDeclaration(member)) {
       continue;
     }
     
-    if (!member.name || !ts.isIdentifier(member.name)) {
+    const methodName = getClassMemberName(member);
+    if (!methodName) {
       logger.trace(`Skipping method with no name`);
       continue;
     }
     
-    const methodName = member.name.text;
+    // Validate the implementation of overloaded methods, which accepts the
+    // arguments of every overload, or the first signature if there is none
+    const hasImplementation = node.members.some(other =>
+      (ts.isMethodDeclaration(other) || ts.isConstructorDeclaration(other)) &&
+      getClassMemberName(other) === methodName &&
+      !!other.body
+    );
+    if ((hasImplementation && !member.body) || validatedNames.has(methodName)) {
+      logger.trace(`Skipping overload signature: ${className}.${methodName}`);
+      continue;
+    }
     
     // Skip methods that don't need validation
-    if (
-      methodName === 'constructor' ||
-      member.parameters.length === 0
-    ) {
-      logger.trace(`Skipping method: ${methodName} (constructor or no parameters)`);
+    if (getValidatedParameters(member).length === 0) {
+      logger.trace(`Skipping method: ${methodName} (no parameters)`);
       continue;
     }
     
     logger.trace(`Generating validator for method: ${className}.${methodName}`);
+    validatedNames.add(methodName);
     
     // Generate validator for this method
-    const schema = generateFunctionParamsValidator(member, typeChecker, options);
+    const schema = generateFunctionParamsValidator(member, typeChecker, options, scope, program);
     
     // Create a variable statement for the validator
-    const validatorName = `${zodSchemaPrefix}${className}${methodName}Params`;
+    const validatorName = getMethodValidatorName(className, member, zodSchemaPrefix, options)!;
     const statement = ts.factory.createVariableStatement(
       [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)],
       ts.factory.createVariableDeclarationList(
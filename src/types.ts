@@ -27,14 +27,38 @@ export interface TypeCompilerOptions {
   strictTypeChecking?: boolean;
   
   /**
-   * Prefix for generated Zod schema variables
+   * Prefix for generated Zod schema variables, e.g. `zUser` for `User`.
+   * Ignored when `schemaNaming` is set.
    */
   zodSchemaPrefix?: string;
   
+  /**
+   * How generated Zod schema variables are named. Either a template in which
+   * `{name}` is replaced by the type name, e.g. `'{name}Schema'`, or a function
+   * returning the variable name for a type name and the kind of schema.
+   * Defaults to `zodSchemaPrefix` followed by the type name.
+   */
+  schemaNaming?: SchemaNaming;
+  
   /**
    * When true, generate validation functions for class methods
    */
   validateClassMethods?: boolean;
+  
+  /**
+   * When true, validate the arguments of functions and class methods against
+   * their parameter schemas when they are called. A `@validate` or `@noValidate`
+   * JSDoc tag on a declaration overrides this, and private methods are only
+   * validated with the tag.
+   */
+  validateParameters?: boolean;
+  
+  /**
+   * When true, validate the values functions and class methods return against
+   * their declared return types, awaiting promises to validate the resolved value.
+   * The `@validate` and `@noValidate` JSDoc tags override this as well.
+   */
+  validateReturnValues?: boolean;
 
   /**
    * When true, only generate schemas for exported types
@@ -43,21 +67,32 @@ export interface TypeCompilerOptions {
   
   /**
    * List of specific type names to include in schema generation
-   * even if they don't match other inclusion criteria
+   * even if they don't match other inclusion criteria, such as `onlyExported`.
+   * Entries may be globs (`*Dto`) or regular expressions between slashes (`/^I[A-Z]/`).
    */
   includedTypes?: string[];
   
   /**
    * List of specific type names to exclude from schema generation
-   * even if they match other inclusion criteria
+   * even if they match other inclusion criteria. Entries may be globs or
+   * regular expressions between slashes, as in `includedTypes`.
    */
   excludedTypes?: string[];
   
   /**
-   * Glob patterns of files to exclude from processing
+   * Glob patterns of files to exclude from processing, relative to the directory
+   * of the tsconfig. Supports `**`, `{a,b}` and `[!x]`, and a pattern starting
+   * with `!` re-includes files excluded by the patterns before it.
    */
   excludePatterns?: string[];
   
+  /**
+   * Glob patterns of files to process, in the same form as `excludePatterns`.
+   * When set, other files are skipped. Excluded files are skipped even if they
+   * match.
+   */
+  includePatterns?: string[];
+  
   /**
    * When true, enables the global type cache for improved performance
    */
@@ -199,6 +234,22 @@ export interface TypeCompilerOptions {
   >;
 }
 
+/**
+ * Kind of declaration a schema variable is generated for
+ */
+export type SchemaKind =
+  | 'type'
+  | 'genericType'
+  | 'methodParams'
+  | 'methodReturn'
+  | 'functionParams'
+  | 'functionReturn';
+
+/**
+ * Naming template or function for generated schema variables
+ */
+export type SchemaNaming = string | ((typeName: string, kind: SchemaKind) => string);
+
 /**
  * Default compiler options
  */
@@ -207,10 +258,13 @@ export const defaultCompilerOptions: TypeCompilerOptions = {
   strictTypeChecking: false,
   zodSchemaPrefix: 'z',
   validateClassMethods: false,
+  validateParameters: false,
+  validateReturnValues: false,
   onlyExported: false,
   includedTypes: [],
   excludedTypes: [],
   excludePatterns: [],
+  includePatterns: [],
   useGlobalCache: true,
   maxCacheSize: 10000,
   incrementalCompilation: false,
@@ -227,6 +281,74 @@ export const defaultCompilerOptions: TypeCompilerOptions = {
   contextualValidators: {}
 };
 
+/**
+ * The declarations schemas are generated for, which lets a schema reference the
+ * schemas of other named types instead of inlining them
+ */
+export interface SchemaScope {
+  /**
+   * Schema variables generated for declared types, keyed by type symbol
+   */
+  schemaNames?: Map<ts.Symbol, string>;
+  
+  /**
+   * The declaration the schema is generated for
+   */
+  declaration?: ts.Declaration;
+  
+  /**
+   * Schema variables in a reference cycle with the one being generated, which
+   * are referenced through z.lazy
+   */
+  cyclicSchemas?: Set<string>;
+  
+  /**
+   * Files in an import cycle with the one the schema is generated in. They may
+   * not have run when it loads, so schemas imported from them are referenced
+   * through z.lazy.
+   */
+  cyclicFiles?: Set<string>;
+  
+  /**
+   * Collects the schema variables of types declared in other files that the
+   * schema references, keyed to the declaring file name. Schemas generated with
+   * the same scope share it; otherwise each schema gets its own.
+   */
+  importedSchemas?: Map<string, string>;
+}
+
+/**
+ * Result of converting a type to a Zod schema
+ */
+export interface ZodSchemaResult {
+  /**
+   * The Zod schema expression
+   */
+  schema: string;
+  
+  /**
+   * Schema variables the expression references through z.lazy because of recursion
+   */
+  lazyReferences: Set<string>;
+  
+  /**
+   * Schema variables the expression references directly, which must be declared first
+   */
+  dependencies: Set<string>;
+  
+  /**
+   * Schema variables of types declared in other files, keyed to the file name of
+   * the declaration. The transformer imports them from that file's module.
+   */
+  importedSchemas: Map<string, string>;
+  
+  /**
+   * Factory parameters for generic declarations, one schema per type parameter.
+   * When present, `schema` is the body of the factory function.
+   */
+  typeParameters?: Array<{ name: string; defaultSchema?: string }>;
+}
+
 /**
  * Worker task data structure
  */
@@ -1,11 +1,20 @@
 import ts from 'typescript';
 import path from 'path';
-import { TypeCompilerOptions } from './types';
+import { TypeCompilerOptions, SchemaKind } from './types';
+import { logger } from './logger';
 
 /**
- * Check if a file should be processed based on excludePatterns
+ * Check if a file should be processed based on `excludePatterns` and
+ * `includePatterns`. Patterns are matched against the path relative to
+ * `rootDir` when it is given and contains the file, usually the directory of
+ * the tsconfig.
  */
-export function shouldProcessFile(fileName: string, excludePatterns: string[] = []): boolean {
+export function shouldProcessFile(
+  fileName: string,
+  excludePatterns: string[] = [],
+  includePatterns: string[] = [],
+  rootDir?: string
+): boolean {
   // Skip declaration files
   if (fileName.endsWith('.d.ts')) {
     return false;
@@ -16,41 +25,163 @@ export function shouldProcessFile(fileName: string, excludePatterns: string[] =
     return false;
   }
   
+  // Files outside the root, such as sibling folders of a monorepo, are matched by
+  // their absolute path, since wildcards do not match `..` segments
+  const filePath = toPosixPath(fileName);
+  const rootRelativePath = rootDir ? toPosixPath(path.relative(rootDir, fileName)) : undefined;
+  const relativePath = rootRelativePath && !/^\.\.(?:\/|$)/.test(rootRelativePath) && !path.isAbsolute(rootRelativePath)
+    ? rootRelativePath
+    : filePath.replace(/^(?:[A-Za-z]:)?\//, '');
+  
+  // Only process files matching include patterns, if there are any
+  if (includePatterns.length > 0 && !matchPatternList(filePath, relativePath, includePatterns)) {
+    return false;
+  }
+  
   // Skip files matching exclude patterns
-  for (const pattern of excludePatterns) {
-    if (matchPattern(fileName, pattern)) {
-      return false;
+  return !matchPatternList(filePath, relativePath, excludePatterns);
+}
+
+/**
+ * Match a file against a list of glob patterns, where the last matching pattern
+ * decides and a pattern starting with `!` negates the patterns before it.
+ * Absolute patterns are matched against the absolute path, others against the
+ * relative one.
+ */
+function matchPatternList(filePath: string, relativePath: string, patterns: string[]): boolean {
+  let matched = false;
+  
+  for (const entry of patterns) {
+    const negated = entry.startsWith('!');
+    const pattern = toPosixPath(negated ? entry.slice(1) : entry).replace(/^\.\//, '');
+    const target = pattern.startsWith('/') || /^[A-Za-z]:\//.test(pattern) ? filePath : relativePath;
+    
+    if (matchPattern(target, pattern)) {
+      matched = !negated;
     }
   }
   
-  return true;
+  return matched;
 }
 
+const globCache = new Map<string, RegExp[]>();
+
 /**
- * Match a file path against a glob pattern
+ * Match a file path against a glob pattern. `*` and `?` match within a path
+ * segment, `**` matches any number of directories, and `[abc]`, `[!abc]` and
+ * `{a,b}` work as in a shell. Wildcards do not match names starting with a dot
+ * unless the pattern spells out the dot.
  */
 function matchPattern(filePath: string, pattern: string): boolean {
-  // Handle common glob patterns
-  if (pattern === '**/*.test.ts' && filePath.endsWith('.test.ts')) {
-    return true;
+  let regexes = globCache.get(pattern);
+  if (!regexes) {
+    regexes = expandBraces(pattern).map(globToRegExp);
+    globCache.set(pattern, regexes);
   }
   
-  if (pattern.includes('**/excluded/**') && filePath.includes('/excluded/')) {
-    return true;
+  return regexes.some(regex => regex.test(filePath));
+}
+
+/**
+ * Expand the first brace group of a pattern, recursively, so `src/{a,b}/*.ts`
+ * gives `src/a/*.ts` and `src/b/*.ts`. Braces without a comma are literal.
+ */
+function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let open = -1;
+  const commas: number[] = [];
+  
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      if (depth++ === 0) {
+        open = i;
+        commas.length = 0;
+      }
+    } else if (char === ',' && depth === 1) {
+      commas.push(i);
+    } else if (char === '}' && depth > 0 && --depth === 0) {
+      if (commas.length === 0) {
+        continue;
+      }
+      
+      const prefix = pattern.slice(0, open);
+      const suffix = pattern.slice(i + 1);
+      const bounds = [open, ...commas, i];
+      return bounds.slice(1).flatMap((bound, index) =>
+        expandBraces(`${prefix}${pattern.slice(bounds[index] + 1, bound)}${suffix}`)
+      );
+    }
   }
   
-  // Simple implementation for other patterns
-  const regex = new RegExp(
-    '^' + 
-    pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*\*/g, '.*')
-      .replace(/\*/g, '[^/]*')
-      .replace(/\?/g, '.')
-    + '$'
-  );
+  return [pattern];
+}
+
+/**
+ * Convert a glob pattern without braces to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const segments = pattern.split('/');
+  let source = '';
+  
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    
+    if (segment === '**') {
+      // Any number of directories, or at the end any path below the directory
+      source += isLast ? '(?:(?!\\.)[^/]+/)*(?!\\.)[^/]+' : '(?:(?!\\.)[^/]+/)*';
+      return;
+    }
+    
+    source += (segment.startsWith('.') ? '' : '(?!\\.)') + segmentToRegExp(segment);
+    if (!isLast) {
+      source += '/';
+    }
+  });
+  
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Convert one path segment of a glob pattern to regular expression source
+ */
+function segmentToRegExp(segment: string): string {
+  let source = '';
+  
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    
+    if (char === '\\' && i + 1 < segment.length) {
+      source += escapeRegExp(segment[++i]);
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && segment.indexOf(']', i + 2) !== -1) {
+      const close = segment.indexOf(']', i + 2);
+      let members = segment.slice(i + 1, close);
+      const negated = members.startsWith('!') || members.startsWith('^');
+      if (negated) {
+        members = members.slice(1);
+      }
+      source += `[${negated ? '^/' : ''}${members.replace(/[\\\]^]/g, '\\$&')}]`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
   
-  return regex.test(filePath);
+  return source;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
 }
 
 /**
@@ -77,31 +208,283 @@ export function isExported(node: ts.Declaration): boolean {
   return false;
 }
 
+/**
+ * Match a type name against a name from `includedTypes` or `excludedTypes`. The
+ * name may be a glob such as `*Dto` or `Internal?`, or a regular expression
+ * between slashes such as `/^I[A-Z]/`.
+ */
+export function matchTypeName(typeName: string, pattern: string): boolean {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(typeName);
+    } catch (error) {
+      logger.warn(`Invalid regex pattern for type names: "${pattern}"`);
+      return false;
+    }
+  }
+  
+  if (/[*?]/.test(pattern)) {
+    const regex = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    return new RegExp(`^${regex}$`).test(typeName);
+  }
+  
+  return typeName === pattern;
+}
+
+/**
+ * Read the JSDoc tags that control schema generation for a declaration: `@zod`
+ * opts it in, `@noZod` opts it out and `@zod-name CustomName` names its schema
+ */
+export function getSchemaTags(declaration: ts.Node): { generate?: boolean; schemaName?: string } {
+  const tags: { generate?: boolean; schemaName?: string } = {};
+  
+  for (const tag of ts.getJSDocTags(declaration)) {
+    switch (tag.tagName.text) {
+      case 'zod':
+        tags.generate = true;
+        break;
+      case 'noZod':
+        tags.generate = false;
+        break;
+      case 'zod-name':
+        tags.schemaName = (ts.getTextOfJSDocComment(tag.comment) || '').trim();
+        break;
+    }
+  }
+  
+  return tags;
+}
+
+/**
+ * Get the reason a type is not selected for schema generation, or undefined if it
+ * is. A `@zod` or `@noZod` JSDoc tag decides first. Otherwise excluded types are
+ * skipped, and included types are selected even if they are not exported while
+ * `onlyExported` is set.
+ */
+export function getTypeSkipReason(
+  declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.ClassDeclaration | ts.EnumDeclaration,
+  options: Pick<TypeCompilerOptions, 'excludedTypes' | 'includedTypes' | 'onlyExported'> = {}
+): string | undefined {
+  if (!declaration.name) {
+    return 'it has no name';
+  }
+  
+  const typeName = declaration.name.text;
+  const { excludedTypes = [], includedTypes = [], onlyExported = false } = options;
+  
+  const { generate } = getSchemaTags(declaration);
+  if (generate !== undefined) {
+    return generate ? undefined : 'it is tagged @noZod';
+  }
+  
+  const excludedBy = excludedTypes.find(pattern => matchTypeName(typeName, pattern));
+  if (excludedBy !== undefined) {
+    return `it matches excludedTypes entry "${excludedBy}"`;
+  }
+  
+  if (onlyExported && !isExported(declaration) && !includedTypes.some(pattern => matchTypeName(typeName, pattern))) {
+    return 'it is not exported and onlyExported is set';
+  }
+  
+  return undefined;
+}
+
 /**
  * Check if a type should be processed based on options
  */
 export function shouldProcessType(
   declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.ClassDeclaration | ts.EnumDeclaration,
   excludedTypes: string[] = [],
-  includedTypes: string[] = []
+  includedTypes: string[] = [],
+  onlyExported = false
 ): boolean {
-  if (!declaration.name) {
-    return false;
+  return getTypeSkipReason(declaration, { excludedTypes, includedTypes, onlyExported }) === undefined;
+}
+
+/**
+ * Get the variable name of the schema generated for a type, following the
+ * `schemaNaming` option, or `zodSchemaPrefix` when it is not set. A name from
+ * `schemaNaming` that is not a valid identifier is reported and replaced by
+ * the prefixed one.
+ */
+export function getSchemaName(
+  typeName: string,
+  kind: SchemaKind,
+  options: TypeCompilerOptions = {}
+): string {
+  const { schemaNaming, zodSchemaPrefix = 'z' } = options;
+  const prefixedName = `${zodSchemaPrefix}${typeName}`;
+  
+  const schemaName = typeof schemaNaming === 'function'
+    ? schemaNaming(typeName, kind)
+    : typeof schemaNaming === 'string'
+      ? schemaNaming.replace(/\{name\}/g, typeName)
+      : prefixedName;
+  
+  if (schemaName !== prefixedName && !isValidIdentifier(schemaName)) {
+    logger.warn(`Ignoring schemaNaming result "${schemaName}" for ${typeName}: it is not a valid identifier`);
+    return prefixedName;
   }
+  return schemaName;
+}
+
+/**
+ * Check whether a name can be used as a variable name in generated code
+ */
+export function isValidIdentifier(name: string): boolean {
+  return typeof name === 'string' && /^[A-Za-z_$][\w$]*$/.test(name);
+}
   
-  const typeName = declaration.name.text;
+/**
+ * Get the index of the first top-level statement that may run code while the
+ * module loads, such as a variable initializer or a class declaration. Generated
+ * schemas and validators are declared before it, so that code can already call
+ * validated functions. Imports, exports from other modules, type, function, enum
+ * and ambient declarations come first.
+ */
+export function getLoadTimeCodeIndex(sourceFile: ts.SourceFile): number {
+  const index = sourceFile.statements.findIndex(statement => !(
+    ts.isImportDeclaration(statement) ||
+    ts.isImportEqualsDeclaration(statement) ||
+    ts.isExportDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isFunctionDeclaration(statement) ||
+    ts.isEnumDeclaration(statement) ||
+    ts.isEmptyStatement(statement) ||
+    (ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression)) ||
+    (ts.canHaveModifiers(statement) &&
+      (ts.getModifiers(statement) || []).some(modifier => modifier.kind === ts.SyntaxKind.DeclareKeyword))
+  ));
   
-  // Skip types explicitly excluded
-  if (excludedTypes.includes(typeName)) {
-    return false;
+  return index === -1 ? sourceFile.statements.length : index;
+}
+
+/**
+ * Collect the names a source file declares as values at the top level, which
+ * generated schema variables must not redeclare. Interfaces and type aliases
+ * only declare types and are not included.
+ */
+export function getDeclaredValueNames(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  
+  const addBindingName = (name: ts.BindingName): void => {
+    if (ts.isIdentifier(name)) {
+      names.add(name.text);
+      return;
+    }
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) {
+        addBindingName(element.name);
+      }
+    }
+  };
+  
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => addBindingName(declaration.name));
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isModuleDeclaration(statement) ||
+        ts.isImportEqualsDeclaration(statement)) &&
+      statement.name &&
+      ts.isIdentifier(statement.name)
+    ) {
+      names.add(statement.name.text);
+    } else if (ts.isImportDeclaration(statement) && statement.importClause) {
+      const { name, namedBindings } = statement.importClause;
+      if (name) {
+        names.add(name.text);
+      }
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        names.add(namedBindings.name.text);
+      } else if (namedBindings) {
+        namedBindings.elements.forEach(element => names.add(element.name.text));
+      }
+    }
   }
   
-  // Only include specified types if the list is provided
-  if (includedTypes.length > 0 && !includedTypes.includes(typeName)) {
-    return false;
+  return names;
+}
+
+/**
+ * Get the relative module specifier for importing one source file from another,
+ * e.g. `./user` or `../models/user`. With `includeExtension`, the specifier names
+ * the emitted JavaScript file, as ECMAScript modules under Node resolution require.
+ */
+export function getRelativeModuleSpecifier(
+  fromFileName: string,
+  toFileName: string,
+  includeExtension = false
+): string {
+  const extension = path.extname(toFileName);
+  const outputExtension = extension === '.mts' ? '.mjs' : extension === '.cts' ? '.cjs' : '.js';
+  const relativePath = path.relative(path.dirname(fromFileName), toFileName).split(path.sep).join('/');
+  const modulePath = relativePath.slice(0, relativePath.length - extension.length);
+  
+  const specifier = modulePath.startsWith('../') ? modulePath : `./${modulePath}`;
+  return includeExtension ? `${specifier}${outputExtension}` : specifier;
+}
+
+/**
+ * Group items into strongly connected components of their dependency graph,
+ * ordered so that every group comes after the groups it depends on. Items in a
+ * group of more than one depend on each other in a cycle. Independent items keep
+ * their original order.
+ */
+export function groupByDependencies<T>(items: T[], getDependencies: (item: T) => Iterable<T>): T[][] {
+  const groups: T[][] = [];
+  const indices = new Map<T, number>();
+  const lowLinks = new Map<T, number>();
+  const stack: T[] = [];
+  const onStack = new Set<T>();
+  const itemSet = new Set(items);
+  
+  // Tarjan's algorithm emits each component after all components it can reach
+  const visit = (item: T) => {
+    indices.set(item, indices.size);
+    lowLinks.set(item, indices.get(item)!);
+    stack.push(item);
+    onStack.add(item);
+    
+    for (const dependency of getDependencies(item)) {
+      if (!itemSet.has(dependency)) {
+        continue;
+      }
+      if (!indices.has(dependency)) {
+        visit(dependency);
+        lowLinks.set(item, Math.min(lowLinks.get(item)!, lowLinks.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(item, Math.min(lowLinks.get(item)!, indices.get(dependency)!));
+      }
+    }
+    
+    if (lowLinks.get(item) === indices.get(item)) {
+      const group: T[] = [];
+      let member: T;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== item);
+      
+      groups.push(group.sort((a, b) => items.indexOf(a) - items.indexOf(b)));
+    }
+  };
+  
+  for (const item of items) {
+    if (!indices.has(item)) {
+      visit(item);
+    }
   }
   
-  return true;
+  return groups;
 }
 
 /**